@@ -0,0 +1,29 @@
+/**
+ * @module voltlog-io
+ * @description Synchronous access to Node.js built-in modules from universal code.
+ * @universal Returns `undefined` where the module doesn't exist (browsers, edge runtimes).
+ *
+ * `process.getBuiltinModule()` is only available from Node.js 20.16 / 22.3,
+ * so older versions (the package supports Node.js 18) go through `createRequire`.
+ */
+
+import * as nodeModule from "node:module";
+
+/** Load a built-in such as `'node:fs'`, or `undefined` if the runtime has none */
+export function loadBuiltin<T>(id: string): T | undefined {
+  try {
+    if (
+      typeof process !== "undefined" &&
+      typeof process.getBuiltinModule === "function"
+    ) {
+      return process.getBuiltinModule(id) as T | undefined;
+    }
+    // Built-ins resolve the same from anywhere, so any absolute path works
+    if (typeof nodeModule.createRequire === "function") {
+      return nodeModule.createRequire("/")(id) as T;
+    }
+  } catch {
+    /* Not available */
+  }
+  return undefined;
+}
@@ -0,0 +1,345 @@
+/**
+ * @module voltlog-io
+ * @description Config hot-reloading behind `logger.watchConfig()`.
+ *
+ * The file uses the `createLoggerFromConfig` format, limited to what can
+ * change at runtime: `level`, `transports` and `middleware`. Only the
+ * transports and middleware the file installed are replaced — ones added
+ * in code are left alone. New transports are added before old ones are
+ * detached, and detached ones are closed once in-flight entries drain.
+ * An invalid file is reported and the previous config stays in place.
+ *
+ * @example
+ * ```ts
+ * // logging.json
+ * // {
+ * //   "level": "INFO",
+ * //   "transports": [{ "type": "loki", "host": "http://loki:3100" }],
+ * //   "middleware": [{ "type": "sampling", "sampleRate": 0.1 }]
+ * // }
+ * const stop = logger.watchConfig('./logging.json');
+ *
+ * // After changing "level" to "DEBUG":
+ * // → INFO [voltlog] Config reloaded
+ * //   { path: './logging.json', changes: { level: { from: 'INFO', to: 'DEBUG' } } }
+ * ```
+ */
+
+import type { Stats } from "node:fs";
+import { loadBuiltin } from "./builtins.js";
+import {
+  ConfigValidationError,
+  createConfigMiddleware,
+  createConfigTransport,
+  type LoggerConfig,
+  validateLoggerConfig,
+} from "./config.js";
+import type {
+  LevelName,
+  Logger,
+  NamedMiddleware,
+  Transport,
+  WatchConfigOptions,
+} from "./types.js";
+
+type Fs = typeof import("node:fs");
+
+/** What the watcher needs from the logger beyond its public API */
+export interface ConfigHost<TMeta> {
+  logger: Logger<TMeta>;
+  /** Log at a level given by name */
+  log(
+    level: LevelName,
+    message: string,
+    meta: Record<string, unknown>,
+    error?: Error,
+  ): void;
+  /** Stop routing entries to `transport`; returns the instance to close */
+  detachTransport(transport: Transport<TMeta>): Transport<TMeta> | undefined;
+  /** Resolves once entries inside the middleware pipeline have settled */
+  drain(): Promise<void>;
+}
+
+/** What one reload changed — logged with the reload event */
+export interface ConfigChanges {
+  level?: { from: string; to: string };
+  transports?: { added: string[]; removed: string[] };
+  middleware?: { added: string[]; removed: string[]; changed: string[] };
+}
+
+interface InstalledTransport<TMeta> {
+  key: string;
+  type: string;
+  transport: Transport<TMeta>;
+}
+
+const RUNTIME_KEYS = ["level", "transports", "middleware"];
+
+/** Identity of an entry's settings, independent of key order */
+function stableKey(item: Record<string, unknown>): string {
+  const { enabled: _enabled, ...settings } = item;
+  return JSON.stringify(settings, (_key, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : value,
+  );
+}
+
+function readConfig(
+  fs: Fs,
+  path: string,
+  env: Record<string, string | undefined> | undefined,
+): LoggerConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new ConfigValidationError([
+      `${path}: ${err instanceof Error ? err.message : String(err)}`,
+    ]);
+  }
+  const config = validateLoggerConfig(raw, { env });
+  const fixed = Object.keys(config).filter((k) => !RUNTIME_KEYS.includes(k));
+  if (fixed.length > 0) {
+    throw new ConfigValidationError(
+      fixed.map(
+        (k) =>
+          `${k}: can't be changed at runtime (watchConfig applies ${RUNTIME_KEYS.join(", ")})`,
+      ),
+    );
+  }
+  return config;
+}
+
+/**
+ * Apply the config at `path` to `host.logger`, then re-apply it whenever
+ * the file changes. Throws if the initial config is invalid.
+ * Returns a function that stops watching.
+ */
+export function watchConfigFile<TMeta>(
+  host: ConfigHost<TMeta>,
+  path: string,
+  options: WatchConfigOptions = {},
+): () => void {
+  const fs = loadBuiltin<Fs>("node:fs");
+  if (!fs) {
+    throw new Error(
+      "[voltlog] watchConfig needs a file system (Node.js, Bun or Deno)",
+    );
+  }
+  const { logger } = host;
+  const eventLevel = options.level ?? "INFO";
+
+  let transports: InstalledTransport<TMeta>[] = [];
+  let middleware = new Map<string, string>();
+
+  /** Names the file can't use because code registered them */
+  function checkMiddlewareNames(config: LoggerConfig): void {
+    const registered = logger.listMiddleware();
+    const issues: string[] = [];
+    (config.middleware ?? []).forEach((item, i) => {
+      if (item.enabled === false) return;
+      const name = item.name ?? item.type;
+      if (!middleware.has(name) && registered.includes(name)) {
+        issues.push(
+          `middleware[${i}]: name "${name}" is already used by middleware added in code`,
+        );
+      }
+    });
+    if (issues.length > 0) throw new ConfigValidationError(issues);
+  }
+
+  /** Build new instances first, so a failing factory changes nothing */
+  function prepare(config: LoggerConfig) {
+    checkMiddlewareNames(config);
+    const kept: InstalledTransport<TMeta>[] = [];
+    const removed = [...transports];
+    const added: InstalledTransport<TMeta>[] = [];
+    const nextMiddleware = new Map<string, string>();
+    const built: Array<{ named: NamedMiddleware<TMeta>; existed: boolean }> =
+      [];
+
+    try {
+      (config.transports ?? []).forEach((item, i) => {
+        if (item.enabled === false) return;
+        const key = stableKey(item);
+        const same = removed.findIndex((t) => t.key === key);
+        if (same !== -1) {
+          kept.push(...removed.splice(same, 1));
+          return;
+        }
+        const transport = createConfigTransport(item, `transports[${i}]`);
+        added.push({
+          key,
+          type: item.type,
+          transport: transport as Transport<TMeta>,
+        });
+      });
+
+      (config.middleware ?? []).forEach((item, i) => {
+        if (item.enabled === false) return;
+        const name = item.name ?? item.type;
+        const key = stableKey(item);
+        nextMiddleware.set(name, key);
+        const previous = middleware.get(name);
+        if (previous === key) return;
+        const named = createConfigMiddleware(item, `middleware[${i}]`);
+        built.push({
+          named: named as NamedMiddleware<TMeta>,
+          existed: previous !== undefined,
+        });
+      });
+    } catch (err) {
+      for (const t of added)
+        Promise.resolve(t.transport.close?.()).catch(() => {});
+      throw err;
+    }
+
+    return { kept, removed, added, nextMiddleware, built };
+  }
+
+  /** Swap the prepared config in; returns what changed and what to close */
+  function apply(config: LoggerConfig): {
+    changes: ConfigChanges;
+    detached: Transport<TMeta>[];
+  } {
+    const { kept, removed, added, nextMiddleware, built } = prepare(config);
+    const changes: ConfigChanges = {};
+
+    if (config.level !== undefined) {
+      const from = logger.getLevel();
+      logger.setLevel(config.level as LevelName);
+      const to = logger.getLevel();
+      if (from !== to) changes.level = { from, to };
+    }
+
+    // Add before detaching so entries always have somewhere to go
+    for (const t of added) logger.addTransport(t.transport);
+    const detached: Transport<TMeta>[] = [];
+    for (const t of removed) {
+      const instance = host.detachTransport(t.transport);
+      if (instance) detached.push(instance);
+    }
+    transports = [...kept, ...added];
+    if (added.length > 0 || removed.length > 0) {
+      changes.transports = {
+        added: added.map((t) => t.type),
+        removed: removed.map((t) => t.type),
+      };
+    }
+
+    const mwChanges = {
+      added: [] as string[],
+      removed: [] as string[],
+      changed: [] as string[],
+    };
+    for (const name of middleware.keys()) {
+      if (!nextMiddleware.has(name) && logger.removeMiddleware(name)) {
+        mwChanges.removed.push(name);
+      }
+    }
+    for (const { named, existed } of built) {
+      const names = logger.listMiddleware();
+      const i = names.indexOf(named.name);
+      if (existed && i !== -1) {
+        // Replace in place, keeping its position in the pipeline
+        const before = names[i + 1];
+        logger.removeMiddleware(named.name);
+        if (before !== undefined) {
+          logger.insertMiddleware(named.middleware, {
+            name: named.name,
+            before,
+          });
+        } else {
+          logger.addMiddleware(named.middleware, named.name);
+        }
+        mwChanges.changed.push(named.name);
+      } else {
+        logger.addMiddleware(named.middleware, named.name);
+        mwChanges.added.push(named.name);
+      }
+    }
+    middleware = nextMiddleware;
+    if (
+      mwChanges.added.length > 0 ||
+      mwChanges.removed.length > 0 ||
+      mwChanges.changed.length > 0
+    ) {
+      changes.middleware = mwChanges;
+    }
+
+    return { changes, detached };
+  }
+
+  async function reload(): Promise<void> {
+    let result: ReturnType<typeof apply>;
+    try {
+      result = apply(readConfig(fs as Fs, path, options.env));
+    } catch (err) {
+      host.log(
+        "ERROR",
+        "[voltlog] Config reload failed",
+        { path },
+        err instanceof Error ? err : new Error(String(err)),
+      );
+      return;
+    }
+
+    const { changes, detached } = result;
+    if (Object.keys(changes).length > 0) {
+      host.log(eventLevel, "[voltlog] Config reloaded", { path, changes });
+    }
+    if (detached.length === 0) return;
+
+    // Let entries already in the pipeline reach the old transports first
+    await host.drain();
+    await Promise.all(
+      detached.map((t) =>
+        Promise.resolve()
+          .then(() => t.close?.())
+          .catch((err) =>
+            host.log(
+              "ERROR",
+              `[voltlog] Failed to close transport "${t.name}"`,
+              { path },
+              err instanceof Error ? err : new Error(String(err)),
+            ),
+          ),
+      ),
+    );
+  }
+
+  const version = (s: Pick<Stats, "mtimeMs" | "size">) =>
+    `${s.mtimeMs}:${s.size}`;
+  let applied = "";
+  try {
+    applied = version(fs.statSync(path));
+  } catch {
+    // readConfig reports the missing file
+  }
+  apply(readConfig(fs, path, options.env));
+
+  let stopped = false;
+  let queue: Promise<void> = Promise.resolve();
+  // Compared with what was applied, not the previous poll: the watcher's
+  // first reading may already include a change made after the read above
+  const listener = (curr: Stats) => {
+    if (stopped || version(curr) === applied) return;
+    applied = version(curr);
+    queue = queue.then(reload);
+  };
+  fs.watchFile(
+    path,
+    { interval: options.intervalMs ?? 1000, persistent: false },
+    listener,
+  );
+  fs.stat(path, (err, stats) => {
+    if (!err) listener(stats);
+  });
+  return () => {
+    stopped = true;
+    fs.unwatchFile(path, listener);
+  };
+}
@@ -0,0 +1,766 @@
+/**
+ * @module voltlog-io
+ * @description Declarative config — build a logger from plain data (JSON, YAML,
+ * env vars) using a registry of transport and middleware factories keyed by name.
+ *
+ * String values may reference environment variables as `${NAME}` or
+ * `${NAME:-default}`. Every problem found is reported at once in a
+ * `ConfigValidationError`, each prefixed with its path in the config.
+ *
+ * @example
+ * ```ts
+ * import { readFileSync } from 'node:fs';
+ * import { createLoggerFromConfig } from 'voltlog-io';
+ *
+ * // logging.json
+ * // {
+ * //   "level": "${LOG_LEVEL:-INFO}",
+ * //   "redact": ["idToken"],
+ * //   "transports": [
+ * //     { "type": "pretty", "enabled": false },
+ * //     { "type": "file", "dir": "./logs", "level": "WARN" },
+ * //     { "type": "loki", "host": "${LOKI_HOST}", "labels": { "app": "csms" } }
+ * //   ],
+ * //   "middleware": [{ "type": "sampling", "maxPerWindow": 100 }]
+ * // }
+ * const logger = createLoggerFromConfig(
+ *   JSON.parse(readFileSync('logging.json', 'utf8')),
+ * );
+ * ```
+ *
+ * @example Registering a factory
+ * ```ts
+ * registerTransportFactory('kafka', (options) => kafkaTransport(options), {
+ *   brokers: { type: 'string[]', required: true },
+ *   topic: { type: 'string', required: true },
+ *   level: { type: 'level' },
+ * });
+ * ```
+ */
+
+import { correlationIdMiddleware } from "../middleware/correlation-id.js";
+import { deduplicationMiddleware } from "../middleware/deduplication.js";
+import { exchangeLogMiddleware } from "../middleware/exchange-log.js";
+import { heapUsageMiddleware } from "../middleware/heap-usage.js";
+import { ipMiddleware } from "../middleware/ip.js";
+import { levelOverrideMiddleware } from "../middleware/level-override.js";
+import { ocppMiddleware } from "../middleware/ocpp.js";
+import { redactionMiddleware } from "../middleware/redaction.js";
+import { samplingMiddleware } from "../middleware/sampling.js";
+import { userAgentMiddleware } from "../middleware/user-agent.js";
+import { consoleTransport } from "../transports/console.js";
+import { datadogTransport } from "../transports/datadog.js";
+import { discordTransport } from "../transports/discord.js";
+import { fileTransport } from "../transports/file.js";
+import { jsonStreamTransport } from "../transports/json-stream.js";
+import { lokiTransport } from "../transports/loki.js";
+import { prettyTransport } from "../transports/pretty.js";
+import { slackTransport } from "../transports/slack.js";
+import { webhookTransport } from "../transports/webhook.js";
+import {
+  type LoggerOptions,
+  LogLevelNameMap,
+  type LogMiddleware,
+  type NamedMiddleware,
+  type Transport,
+} from "./types.js";
+
+// ─── Schema ──────────────────────────────────────────────────────
+
+/** Value types understood by the validator (`level` = a known level name) */
+export type ConfigValueType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "level"
+  | "string[]"
+  | "record";
+
+export interface ConfigOptionSpec {
+  /** Accepted type, or several */
+  type: ConfigValueType | ConfigValueType[];
+  /** Whether the option must be present */
+  required?: boolean;
+  /** Allowed values for `string` options */
+  values?: string[];
+}
+
+/** Options a factory accepts. Factories without a schema get options unchecked. */
+export type ConfigSchema = Record<string, ConfigOptionSpec>;
+
+export type TransportFactory = (options: Record<string, unknown>) => Transport;
+export type MiddlewareFactory = (
+  options: Record<string, unknown>,
+) => LogMiddleware;
+
+// ─── Config Shape ────────────────────────────────────────────────
+
+/** `{ "type": "loki", "host": "..." }` — everything but `type`/`enabled` goes to the factory */
+export interface TransportConfig {
+  type: string;
+  /** Skip this entry when false (default: true) */
+  enabled?: boolean;
+  [option: string]: unknown;
+}
+
+/** Like `TransportConfig`; `name` sets the middleware name (default: `type`) */
+export interface MiddlewareConfig {
+  type: string;
+  name?: string;
+  enabled?: boolean;
+  [option: string]: unknown;
+}
+
+export interface LoggerConfig {
+  level?: string;
+  context?: Record<string, unknown>;
+  redact?: string[];
+  includeStack?: boolean | string;
+  maxErrorDepth?: number;
+  exchangeLog?: boolean | "only";
+  messageTemplates?: boolean;
+  printf?: boolean;
+  idGenerator?: string;
+  hrTimestamps?: boolean;
+  levels?: Record<string, number>;
+  namespaces?: string;
+  middlewareTimeoutMs?: number;
+  orderedMiddleware?: boolean;
+  freezeEntries?: boolean;
+  transports?: TransportConfig[];
+  middleware?: MiddlewareConfig[];
+}
+
+export interface ConfigLoaderOptions<TMeta = Record<string, unknown>> {
+  /** Variables for `${NAME}` references (default: `process.env`) */
+  env?: Record<string, string | undefined>;
+  /**
+   * Options config can't express (`onTransportError`, `errorSerializer`, ...).
+   * Config values win; config transports and middleware are appended.
+   */
+  defaults?: LoggerOptions<TMeta>;
+}
+
+/**
+ * Raised when a config fails validation. `issues` holds one readable line
+ * per problem, e.g. `transports[1].host: required option is missing`.
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(
+      `[voltlog] Invalid logger config:\n${issues.map((i) => `  - ${i}`).join("\n")}`,
+    );
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+// ─── Registry ────────────────────────────────────────────────────
+
+interface Factory<T> {
+  create: (options: Record<string, unknown>) => T;
+  schema?: ConfigSchema;
+}
+
+const transportFactories = new Map<string, Factory<Transport>>();
+const middlewareFactories = new Map<string, Factory<LogMiddleware>>();
+
+/**
+ * Make a transport available to configs as `{ "type": type, ... }`.
+ * Replaces any factory registered under the same type (including built-ins).
+ */
+export function registerTransportFactory(
+  type: string,
+  create: TransportFactory,
+  schema?: ConfigSchema,
+): void {
+  transportFactories.set(type, { create, schema });
+}
+
+/**
+ * Make a middleware available to configs as `{ "type": type, ... }`.
+ * Replaces any factory registered under the same type (including built-ins).
+ */
+export function registerMiddlewareFactory(
+  type: string,
+  create: MiddlewareFactory,
+  schema?: ConfigSchema,
+): void {
+  middlewareFactories.set(type, { create, schema });
+}
+
+/** Registered transport and middleware types */
+export function listConfigFactories(): {
+  transports: string[];
+  middleware: string[];
+} {
+  return {
+    transports: [...transportFactories.keys()],
+    middleware: [...middlewareFactories.keys()],
+  };
+}
+
+// Factories take validated options, so the casts below are safe
+type AnyFactory = (options: never) => unknown;
+const asFactory = <T>(fn: AnyFactory) =>
+  fn as unknown as (options: Record<string, unknown>) => T;
+
+const LEVEL: ConfigOptionSpec = { type: "level" };
+const TIMESTAMP_FORMAT: ConfigOptionSpec = {
+  type: "string",
+  values: ["epoch-ms", "iso", "rfc3339nano"],
+};
+const SERIALIZE_LIMITS: ConfigOptionSpec = { type: "record" };
+
+registerTransportFactory("console", asFactory(consoleTransport), {
+  level: LEVEL,
+  useConsoleLevels: { type: "boolean" },
+  timestampFormat: TIMESTAMP_FORMAT,
+  serializeLimits: SERIALIZE_LIMITS,
+});
+registerTransportFactory("pretty", asFactory(prettyTransport), {
+  level: LEVEL,
+  timestamps: { type: "boolean" },
+  timestampFormat: TIMESTAMP_FORMAT,
+  colors: { type: "boolean" },
+  levelColors: { type: "record" },
+  levelIcons: { type: "record" },
+});
+registerTransportFactory("file", asFactory(fileTransport), {
+  dir: { type: "string", required: true },
+  filename: { type: "string" },
+  level: LEVEL,
+  timestampFormat: TIMESTAMP_FORMAT,
+  serializeLimits: SERIALIZE_LIMITS,
+});
+registerTransportFactory(
+  "json-stream",
+  ({ stream, ...options }) =>
+    jsonStreamTransport({
+      ...options,
+      stream: stream === "stderr" ? process.stderr : process.stdout,
+    }),
+  {
+    stream: { type: "string", values: ["stdout", "stderr"] },
+    level: LEVEL,
+    timestampFormat: TIMESTAMP_FORMAT,
+    serializeLimits: SERIALIZE_LIMITS,
+  },
+);
+registerTransportFactory("loki", asFactory(lokiTransport), {
+  host: { type: "string", required: true },
+  basicAuthUser: { type: "string" },
+  basicAuthPassword: { type: "string" },
+  tenantId: { type: "string" },
+  labels: { type: "record" },
+  level: LEVEL,
+  batchSize: { type: "number" },
+  interval: { type: "number" },
+  serializeLimits: SERIALIZE_LIMITS,
+});
+registerTransportFactory("datadog", asFactory(datadogTransport), {
+  apiKey: { type: "string", required: true },
+  site: { type: "string" },
+  service: { type: "string" },
+  ddSource: { type: "string" },
+  hostname: { type: "string" },
+  tags: { type: "string" },
+  level: LEVEL,
+});
+registerTransportFactory("discord", asFactory(discordTransport), {
+  webhookUrl: { type: "string", required: true },
+  level: LEVEL,
+  username: { type: "string" },
+  avatarUrl: { type: "string" },
+  levelColors: { type: "record" },
+});
+registerTransportFactory("slack", asFactory(slackTransport), {
+  webhookUrl: { type: "string", required: true },
+  level: LEVEL,
+  username: { type: "string" },
+  iconEmoji: { type: "string" },
+  levelColors: { type: "record" },
+  levelEmojis: { type: "record" },
+});
+registerTransportFactory("webhook", asFactory(webhookTransport), {
+  url: { type: "string", required: true },
+  method: { type: "string" },
+  headers: { type: "record" },
+  batchSize: { type: "number" },
+  flushIntervalMs: { type: "number" },
+  level: LEVEL,
+  retry: { type: "boolean" },
+  maxRetries: { type: "number" },
+  serializeLimits: SERIALIZE_LIMITS,
+});
+
+registerMiddlewareFactory("redaction", asFactory(redactionMiddleware), {
+  paths: { type: "string[]", required: true },
+  replacement: { type: "string" },
+  deep: { type: "boolean" },
+});
+registerMiddlewareFactory("sampling", asFactory(samplingMiddleware), {
+  maxPerWindow: { type: "number" },
+  windowMs: { type: "number" },
+  sampleRate: { type: "number" },
+  priorityLevel: { type: "number" },
+  keyBy: { type: "string", values: ["message", "template"] },
+});
+registerMiddlewareFactory("deduplication", asFactory(deduplicationMiddleware), {
+  windowMs: { type: "number" },
+  keyBy: { type: "string", values: ["message", "template"] },
+});
+registerMiddlewareFactory("correlationId", asFactory(correlationIdMiddleware), {
+  header: { type: "string" },
+});
+registerMiddlewareFactory("levelOverride", asFactory(levelOverrideMiddleware), {
+  key: { type: "string" },
+  cleanup: { type: "boolean" },
+});
+registerMiddlewareFactory("heapUsage", asFactory(heapUsageMiddleware), {
+  fieldName: { type: "string" },
+});
+registerMiddlewareFactory("ip", asFactory(ipMiddleware), {
+  fieldName: { type: "string" },
+  headerKeys: { type: "string[]" },
+});
+registerMiddlewareFactory("userAgent", asFactory(userAgentMiddleware), {
+  sourceField: { type: "string" },
+  targetField: { type: "string" },
+});
+registerMiddlewareFactory("ocpp", asFactory(ocppMiddleware), {
+  autoPayloadSize: { type: "boolean" },
+  propagateCorrelationId: { type: "boolean" },
+});
+registerMiddlewareFactory("exchangeLog", asFactory(exchangeLogMiddleware), {
+  mode: { type: "string", values: ["both", "only"] },
+});
+
+// ─── Validation ──────────────────────────────────────────────────
+
+const ROOT_SCHEMA: ConfigSchema = {
+  level: LEVEL,
+  context: { type: "record" },
+  redact: { type: "string[]" },
+  includeStack: { type: ["boolean", "level"] },
+  maxErrorDepth: { type: "number" },
+  exchangeLog: { type: ["boolean", "string"], values: ["only"] },
+  messageTemplates: { type: "boolean" },
+  printf: { type: "boolean" },
+  idGenerator: {
+    type: "string",
+    values: ["cuid2", "ulid", "uuidv7", "counter", "none"],
+  },
+  hrTimestamps: { type: "boolean" },
+  levels: { type: "record" },
+  namespaces: { type: "string" },
+  middlewareTimeoutMs: { type: "number" },
+  orderedMiddleware: { type: "boolean" },
+  freezeEntries: { type: "boolean" },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `"${value}"`;
+  return typeof value;
+}
+
+function matches(
+  value: unknown,
+  type: ConfigValueType,
+  levels: Set<string>,
+): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "level":
+      return typeof value === "string" && levels.has(value.toLowerCase());
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string");
+    case "record":
+      return isRecord(value);
+  }
+}
+
+/** Edit distance, for "did you mean" hints on misspelled keys */
+function distance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        (prev[j] ?? 0) + 1,
+        (row[j - 1] ?? 0) + 1,
+        (prev[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    prev = row;
+  }
+  return prev[b.length] ?? 0;
+}
+
+function suggest(name: string, candidates: Iterable<string>): string {
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const d = distance(name.toLowerCase(), candidate.toLowerCase());
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best ? ` (did you mean "${best}"?)` : "";
+}
+
+/**
+ * Convert an interpolated string to the number or boolean the schema
+ * expects; anything else is left for the type check to report
+ */
+function coerce(value: unknown, types: ConfigValueType[]): unknown {
+  if (typeof value !== "string") return value;
+  const text = value.trim();
+  if (types.includes("number") && text !== "") {
+    const n = Number(text);
+    if (Number.isFinite(n)) return n;
+  }
+  if (types.includes("boolean") && (text === "true" || text === "false")) {
+    return text === "true";
+  }
+  return value;
+}
+
+function checkOptions(
+  options: Record<string, unknown>,
+  schema: ConfigSchema,
+  path: string,
+  levels: Set<string>,
+  interpolated: Set<string>,
+  issues: string[],
+  reserved: string[] = [],
+): void {
+  const at = (key: string) => (path ? `${path}.${key}` : key);
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const types = Array.isArray(spec.type) ? spec.type : [spec.type];
+    if (interpolated.has(at(key))) options[key] = coerce(options[key], types);
+    const value = options[key];
+    if (value === undefined) {
+      if (spec.required) issues.push(`${at(key)}: required option is missing`);
+      continue;
+    }
+    if (!types.some((t) => matches(value, t, levels))) {
+      const expected = types
+        .map((t) => (t === "level" ? "a level name" : t))
+        .join(" or ");
+      issues.push(`${at(key)}: expected ${expected}, got ${describe(value)}`);
+    } else if (
+      spec.values &&
+      typeof value === "string" &&
+      !spec.values.includes(value)
+    ) {
+      issues.push(
+        `${at(key)}: expected one of ${spec.values.map((v) => `"${v}"`).join(", ")}, got "${value}"`,
+      );
+    }
+  }
+
+  for (const key of Object.keys(options)) {
+    if (key in schema || reserved.includes(key)) continue;
+    issues.push(
+      `${at(key)}: unknown option${suggest(key, [...Object.keys(schema), ...reserved])}`,
+    );
+  }
+}
+
+const ENV_REF = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Resolve `${NAME}` / `${NAME:-default}` in every string, deeply.
+ * Paths of resolved strings go into `interpolated` so the schema check
+ * can convert them to numbers and booleans.
+ */
+function interpolate(
+  value: unknown,
+  env: Record<string, string | undefined>,
+  path: string,
+  interpolated: Set<string>,
+  issues: string[],
+): unknown {
+  if (typeof value === "string") {
+    return value.replace(ENV_REF, (_ref, name: string, fallback?: string) => {
+      interpolated.add(path);
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        issues.push(
+          `${path || "config"}: environment variable ${name} is not set`,
+        );
+        return "";
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((v, i) =>
+      interpolate(v, env, `${path}[${i}]`, interpolated, issues),
+    );
+  }
+  if (isRecord(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      const at = path ? `${path}.${key}` : key;
+      result[key] = interpolate(v, env, at, interpolated, issues);
+    }
+    return result;
+  }
+  return value;
+}
+
+function checkEntries(
+  list: unknown,
+  kind: "transports" | "middleware",
+  registry: Map<string, Factory<unknown>>,
+  levels: Set<string>,
+  interpolated: Set<string>,
+  issues: string[],
+): void {
+  if (list === undefined) return;
+  if (!Array.isArray(list)) {
+    issues.push(`${kind}: expected array, got ${describe(list)}`);
+    return;
+  }
+  const reserved =
+    kind === "middleware" ? ["type", "enabled", "name"] : ["type", "enabled"];
+
+  list.forEach((item, i) => {
+    const path = `${kind}[${i}]`;
+    if (!isRecord(item)) {
+      issues.push(`${path}: expected object, got ${describe(item)}`);
+      return;
+    }
+    if (interpolated.has(`${path}.enabled`)) {
+      item.enabled = coerce(item.enabled, ["boolean"]);
+    }
+    const { type, enabled, name } = item;
+    if (typeof type !== "string") {
+      issues.push(`${path}.type: expected string, got ${describe(type)}`);
+      return;
+    }
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      issues.push(
+        `${path}.enabled: expected boolean, got ${describe(enabled)}`,
+      );
+    }
+    if (
+      kind === "middleware" &&
+      name !== undefined &&
+      typeof name !== "string"
+    ) {
+      issues.push(`${path}.name: expected string, got ${describe(name)}`);
+    }
+    const factory = registry.get(type);
+    if (!factory) {
+      issues.push(
+        `${path}.type: unknown ${kind === "transports" ? "transport" : "middleware"} "${type}"${suggest(type, registry.keys())}`,
+      );
+      return;
+    }
+    if (factory.schema) {
+      checkOptions(
+        item,
+        factory.schema,
+        path,
+        levels,
+        interpolated,
+        issues,
+        reserved,
+      );
+    }
+  });
+}
+
+/**
+ * Registration names must be unique; an entry without `name` registers
+ * under its type, and `redact`/`exchangeLog` claim their own names
+ */
+function checkMiddlewareNames(
+  config: Record<string, unknown>,
+  issues: string[],
+): void {
+  if (!Array.isArray(config.middleware)) return;
+  const owners = new Map<string, string>();
+  if (Array.isArray(config.redact) && config.redact.length > 0) {
+    owners.set("redaction", "the redact option");
+  }
+  if (config.exchangeLog === true || config.exchangeLog === "only") {
+    owners.set("exchangeLog", "the exchangeLog option");
+  }
+
+  config.middleware.forEach((item, i) => {
+    if (!isRecord(item) || item.enabled === false) return;
+    const name = item.name ?? item.type;
+    if (typeof name !== "string") return;
+    const path = `middleware[${i}]`;
+    const owner = owners.get(name);
+    if (owner) {
+      issues.push(
+        `${path}: name "${name}" is already used by ${owner}${item.name === undefined ? "; set a unique name" : ""}`,
+      );
+    } else {
+      owners.set(name, path);
+    }
+  });
+}
+
+/**
+ * Validate a config (typically parsed JSON/YAML) and resolve its
+ * `${NAME}` references. Returns the resolved config or throws a
+ * `ConfigValidationError` listing every problem.
+ */
+export function validateLoggerConfig(
+  config: unknown,
+  options: Pick<ConfigLoaderOptions, "env"> = {},
+): LoggerConfig {
+  if (!isRecord(config)) {
+    throw new ConfigValidationError([
+      `config: expected object, got ${describe(config)}`,
+    ]);
+  }
+
+  const issues: string[] = [];
+  const env =
+    options.env ??
+    (typeof process !== "undefined" && process.env ? process.env : {});
+  const interpolated = new Set<string>();
+  const resolved = interpolate(config, env, "", interpolated, issues) as Record<
+    string,
+    unknown
+  >;
+
+  // Custom levels from this config count as known level names
+  const levels = new Set(Object.keys(LogLevelNameMap));
+  if (isRecord(resolved.levels)) {
+    for (const [name, raw] of Object.entries(resolved.levels)) {
+      const value = interpolated.has(`levels.${name}`)
+        ? coerce(raw, ["number"])
+        : raw;
+      resolved.levels[name] = value;
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push(`levels.${name}: expected number, got ${describe(value)}`);
+      } else {
+        levels.add(name.toLowerCase());
+      }
+    }
+  }
+
+  const { transports, middleware } = resolved;
+  checkOptions(resolved, ROOT_SCHEMA, "", levels, interpolated, issues, [
+    "transports",
+    "middleware",
+  ]);
+  checkEntries(
+    transports,
+    "transports",
+    transportFactories,
+    levels,
+    interpolated,
+    issues,
+  );
+  checkEntries(
+    middleware,
+    "middleware",
+    middlewareFactories,
+    levels,
+    interpolated,
+    issues,
+  );
+  checkMiddlewareNames(resolved, issues);
+
+  if (issues.length > 0) throw new ConfigValidationError(issues);
+  return resolved as LoggerConfig;
+}
+
+// ─── Building ────────────────────────────────────────────────────
+
+/** Everything but the config's own keys, for the factory */
+function factoryOptions(
+  item: Record<string, unknown>,
+  reserved: string[],
+): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(item)) {
+    if (!reserved.includes(key)) options[key] = value;
+  }
+  return options;
+}
+
+/** Run a factory, turning its throw into a validation issue at `path` */
+function build<T>(
+  factory: Factory<T>,
+  item: Record<string, unknown>,
+  path: string,
+  reserved: string[],
+): T {
+  try {
+    return factory.create(factoryOptions(item, reserved));
+  } catch (err) {
+    throw new ConfigValidationError([
+      `${path}: ${err instanceof Error ? err.message : String(err)}`,
+    ]);
+  }
+}
+
+/** Instantiate one transport entry of a validated config */
+export function createConfigTransport(
+  item: TransportConfig,
+  path: string,
+): Transport {
+  // biome-ignore lint/style/noNonNullAssertion: Checked by validateLoggerConfig
+  const factory = transportFactories.get(item.type)!;
+  return build(factory, item, path, ["type", "enabled"]);
+}
+
+/** Instantiate one middleware entry of a validated config */
+export function createConfigMiddleware(
+  item: MiddlewareConfig,
+  path: string,
+): NamedMiddleware {
+  // biome-ignore lint/style/noNonNullAssertion: Checked by validateLoggerConfig
+  const factory = middlewareFactories.get(item.type)!;
+  return {
+    name: item.name ?? item.type,
+    middleware: build(factory, item, path, ["type", "enabled", "name"]),
+  };
+}
+
+/** Instantiate the enabled transports of a validated config */
+export function buildConfigTransports(config: LoggerConfig): Transport[] {
+  const result: Transport[] = [];
+  (config.transports ?? []).forEach((item, i) => {
+    if (item.enabled !== false) {
+      result.push(createConfigTransport(item, `transports[${i}]`));
+    }
+  });
+  return result;
+}
+
+/** Instantiate the enabled middleware of a validated config */
+export function buildConfigMiddleware(config: LoggerConfig): NamedMiddleware[] {
+  const result: NamedMiddleware[] = [];
+  (config.middleware ?? []).forEach((item, i) => {
+    if (item.enabled !== false) {
+      result.push(createConfigMiddleware(item, `middleware[${i}]`));
+    }
+  });
+  return result;
+}
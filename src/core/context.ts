@@ -0,0 +1,78 @@
+/**
+ * @module voltlog-io
+ * @description Ambient context — carries fields like `correlationId` across async calls
+ * without passing child loggers around. Backed by `AsyncLocalStorage` on
+ * Node.js/Bun/Deno; elsewhere the context only lives for the synchronous part of `fn`.
+ *
+ * @example
+ * ```ts
+ * server.on('message', (cp, msg) =>
+ *   logger.runWithContext({ correlationId: msg.id, chargePointId: cp.id }, async () => {
+ *     await handle(msg);
+ *     logger.info('Handled'); // → context: { correlationId, chargePointId }
+ *   }),
+ * );
+ * ```
+ */
+
+import { loadBuiltin } from "./builtins.js";
+
+type Context = Record<string, unknown>;
+
+interface ContextStorage {
+  run<T>(context: Context, fn: () => T): T;
+  getStore(): Context | undefined;
+}
+
+interface AsyncLocalStorageConstructor {
+  new (): ContextStorage;
+}
+
+function loadAsyncLocalStorage(): AsyncLocalStorageConstructor | undefined {
+  // Deno and edge runtimes may expose it globally
+  const scope = globalThis as { AsyncLocalStorage?: unknown };
+  if (typeof scope.AsyncLocalStorage === "function") {
+    return scope.AsyncLocalStorage as AsyncLocalStorageConstructor;
+  }
+  return loadBuiltin<{ AsyncLocalStorage?: AsyncLocalStorageConstructor }>(
+    "node:async_hooks",
+  )?.AsyncLocalStorage;
+}
+
+/** Keeps the context for the synchronous part of `fn` only */
+function createSyncStorage(): ContextStorage {
+  const stack: Context[] = [];
+  return {
+    run(context, fn) {
+      stack.push(context);
+      try {
+        return fn();
+      } finally {
+        stack.pop();
+      }
+    },
+    getStore: () => stack[stack.length - 1],
+  };
+}
+
+const AsyncLocalStorageImpl = loadAsyncLocalStorage();
+const storage: ContextStorage = AsyncLocalStorageImpl
+  ? new AsyncLocalStorageImpl()
+  : createSyncStorage();
+
+/** Whether context survives `await` in this runtime */
+export const hasAsyncContext = AsyncLocalStorageImpl !== undefined;
+
+/**
+ * Run `fn` with `context` as ambient context. Nested calls merge with
+ * (and override) the outer context. Returns `fn`'s result.
+ */
+export function runWithContext<T>(context: Context, fn: () => T): T {
+  const outer = storage.getStore();
+  return storage.run(outer ? { ...outer, ...context } : context, fn);
+}
+
+/** The ambient context of the current async call chain, if any */
+export function getContext(): Context | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,46 @@
+/**
+ * @module voltlog-io
+ * @description Log entry helpers shared by the pipeline and transports.
+ */
+
+import type { LogEntry } from "./types.js";
+
+/**
+ * Copy an entry and its top-level objects (`meta`, `context`, `error`,
+ * `exchange`) so middleware working on the copy can't touch the original.
+ * Nested values are shared.
+ */
+export function cloneEntry<TMeta>(entry: LogEntry<TMeta>): LogEntry<TMeta> {
+  const copy = { ...entry };
+  if (entry.meta && typeof entry.meta === "object") {
+    copy.meta = { ...entry.meta };
+  }
+  if (entry.context) copy.context = { ...entry.context };
+  if (entry.error) copy.error = { ...entry.error };
+  if (entry.exchange) copy.exchange = { ...entry.exchange };
+  return copy;
+}
+
+/**
+ * Freeze an entry and its top-level objects in place. Used in dev mode
+ * (`freezeEntries`) so a transport mutating a shared entry throws instead
+ * of silently changing what other transports see.
+ */
+export function freezeEntry<TMeta>(
+  entry: LogEntry<TMeta>,
+): Readonly<LogEntry<TMeta>> {
+  if (entry.meta && typeof entry.meta === "object") Object.freeze(entry.meta);
+  if (entry.context) Object.freeze(entry.context);
+  if (entry.error) Object.freeze(entry.error);
+  if (entry.exchange) Object.freeze(entry.exchange);
+  return Object.freeze(entry);
+}
+
+/** Whether `NODE_ENV` is `development` — the default for `freezeEntries` */
+export function isDevMode(): boolean {
+  return (
+    typeof process !== "undefined" &&
+    !!process.env &&
+    process.env.NODE_ENV === "development"
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * @module voltlog-io
+ * @description Error serialization — turns `Error` instances into plain `LogError` objects.
+ * Walks `cause` chains and `AggregateError` members up to a depth limit and
+ * copies custom own properties (e.g. `statusCode`, OCPP `errorCode`/`errorDetails`).
+ *
+ * @example
+ * ```ts
+ * const err = new Error('Boot rejected', { cause: new Error('ECONNRESET') });
+ * serializeError(err);
+ * // → { name: 'Error', message: 'Boot rejected', stack: '...',
+ * //     cause: { name: 'Error', message: 'ECONNRESET', stack: '...' } }
+ * ```
+ */
+
+import type { LogError, SerializeErrorOptions } from "./types.js";
+
+const DEFAULT_MAX_DEPTH = 5;
+
+/** Fields handled explicitly — never copied as custom properties */
+const RESERVED_FIELDS = new Set([
+  "name",
+  "message",
+  "stack",
+  "cause",
+  "errors",
+]);
+
+/**
+ * Default error serializer.
+ */
+export function serializeError(
+  error: Error,
+  options: SerializeErrorOptions = {},
+): LogError {
+  return serializeAt(
+    error,
+    options.includeStack ?? true,
+    options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    0,
+    new WeakSet(),
+  );
+}
+
+/**
+ * Replace every `Error` found in `meta` (nested plain objects and arrays
+ * included) with its serialized form. Returns `meta` itself when it holds
+ * no errors, otherwise a copy — the caller's object is never mutated.
+ */
+export function serializeMetaErrors<T>(
+  meta: T,
+  serialize: (error: Error) => LogError,
+  maxDepth: number = DEFAULT_MAX_DEPTH,
+): T {
+  return replaceErrors(meta, serialize, maxDepth, 0, new WeakSet()) as T;
+}
+
+function serializeAt(
+  error: Error,
+  includeStack: boolean,
+  maxDepth: number,
+  depth: number,
+  seen: WeakSet<object>,
+): LogError {
+  const result: LogError = {
+    name: readSafely(error, "name") as string | undefined,
+    message: String(readSafely(error, "message") ?? ""),
+  };
+
+  if (seen.has(error)) {
+    result.circular = true;
+    return result;
+  }
+  if (depth >= maxDepth) {
+    result.truncated = true;
+    return result;
+  }
+  seen.add(error);
+
+  if (includeStack) {
+    const stack = readSafely(error, "stack");
+    if (typeof stack === "string") result.stack = stack;
+  }
+
+  for (const key of ownKeys(error)) {
+    if (RESERVED_FIELDS.has(key)) continue;
+    const value = copyValue(
+      readSafely(error, key),
+      includeStack,
+      maxDepth,
+      depth + 1,
+      seen,
+    );
+    if (value !== undefined) result[key] = value;
+  }
+
+  const cause = readSafely(error, "cause");
+  if (cause !== undefined) {
+    result.cause =
+      cause instanceof Error
+        ? serializeAt(cause, includeStack, maxDepth, depth + 1, seen)
+        : { message: describeValue(cause) };
+  }
+
+  const members = readSafely(error, "errors");
+  if (Array.isArray(members)) {
+    result.errors = members.map((member) =>
+      member instanceof Error
+        ? serializeAt(member, includeStack, maxDepth, depth + 1, seen)
+        : { message: describeValue(member) },
+    );
+  }
+
+  seen.delete(error);
+  return result;
+}
+
+/** Copy a custom property value, dropping anything that can't be logged */
+function copyValue(
+  value: unknown,
+  includeStack: boolean,
+  maxDepth: number,
+  depth: number,
+  seen: WeakSet<object>,
+): unknown {
+  if (value === null || typeof value !== "object") {
+    return typeof value === "function" || typeof value === "symbol"
+      ? undefined
+      : value;
+  }
+  if (value instanceof Error) {
+    return serializeAt(value, includeStack, maxDepth, depth, seen);
+  }
+  if (seen.has(value)) return "[Circular]";
+  if (depth >= maxDepth) return "[Truncated]";
+  if (!Array.isArray(value) && !isPlainObject(value)) return value;
+
+  seen.add(value);
+  let copy: unknown;
+  if (Array.isArray(value)) {
+    copy = value.map((item) =>
+      copyValue(item, includeStack, maxDepth, depth + 1, seen),
+    );
+  } else {
+    const obj: Record<string, unknown> = {};
+    for (const key of ownKeys(value)) {
+      const v = copyValue(
+        readSafely(value, key),
+        includeStack,
+        maxDepth,
+        depth + 1,
+        seen,
+      );
+      if (v !== undefined) obj[key] = v;
+    }
+    copy = obj;
+  }
+  seen.delete(value);
+  return copy;
+}
+
+function replaceErrors(
+  value: unknown,
+  serialize: (error: Error) => LogError,
+  maxDepth: number,
+  depth: number,
+  seen: WeakSet<object>,
+): unknown {
+  if (value instanceof Error) return serialize(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= maxDepth || seen.has(value)) return value;
+  if (!Array.isArray(value) && !isPlainObject(value)) return value;
+
+  seen.add(value);
+  let copy: unknown[] | Record<string, unknown> | undefined;
+
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      const item = value[i];
+      const replaced = replaceErrors(
+        item,
+        serialize,
+        maxDepth,
+        depth + 1,
+        seen,
+      );
+      if (replaced !== item) {
+        copy ??= value.slice();
+        (copy as unknown[])[i] = replaced;
+      }
+    }
+  } else {
+    for (const key of ownKeys(value)) {
+      const item = readSafely(value, key);
+      const replaced = replaceErrors(
+        item,
+        serialize,
+        maxDepth,
+        depth + 1,
+        seen,
+      );
+      if (replaced !== item) {
+        copy ??= copyOwn(value);
+        (copy as Record<string, unknown>)[key] = replaced;
+      }
+    }
+  }
+
+  seen.delete(value);
+  return copy ?? value;
+}
+
+function copyOwn(value: object): Record<string, unknown> {
+  const copy: Record<string, unknown> = {};
+  for (const key of ownKeys(value)) copy[key] = readSafely(value, key);
+  return copy;
+}
+
+function ownKeys(value: object): string[] {
+  try {
+    return Object.keys(value);
+  } catch {
+    return [];
+  }
+}
+
+/** Property read that survives throwing getters and proxies */
+function readSafely(target: object, key: string): unknown {
+  try {
+    return (target as Record<string, unknown>)[key];
+  } catch {
+    return undefined;
+  }
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * @module voltlog-io
+ * @description Entry IDs and sequence numbers.
+ * @universal Works in all environments (uses `crypto.getRandomValues` when available).
+ *
+ * `LogEntry.id` comes from `LoggerOptions.idGenerator`:
+ * - `'cuid2'` — collision-resistant, not sortable (default)
+ * - `'ulid'` — 26-char Crockford base32, sortable, monotonic within a millisecond
+ * - `'uuidv7'` — RFC 9562 UUID, sortable, monotonic within a millisecond
+ * - `'counter'` — random per-logger prefix plus a counter; the cheapest
+ * - `'none'` — empty string, for pipelines that don't use IDs
+ * - or any `() => string`
+ *
+ * `LogEntry.seq` is independent of the ID: a per-process counter shared by
+ * every logger, so entries with the same timestamp still have an order.
+ *
+ * @example
+ * ```ts
+ * const logger = createLogger({ idGenerator: 'ulid' });
+ * logger.info('Boot');
+ * // → { id: '01J9ZQ6V3K8R2W5X7Y9A1B3C4D', seq: 1, ... }
+ * ```
+ */
+
+import { createId } from "@paralleldrive/cuid2";
+import type { IdGenerator, IdGeneratorName } from "./types.js";
+
+/** The slice of Web Crypto used here — avoids depending on the DOM lib */
+interface CryptoLike {
+  getRandomValues<T extends Uint8Array>(array: T): T;
+}
+
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const HEX = Array.from({ length: 256 }, (_, i) =>
+  i.toString(16).padStart(2, "0"),
+);
+
+// Random bytes are drawn from a pool to avoid a crypto call per ID
+let pool: Uint8Array = new Uint8Array(0);
+let poolOffset = 0;
+
+function fillRandom(bytes: Uint8Array): Uint8Array {
+  const crypto = (globalThis as { crypto?: CryptoLike }).crypto;
+  if (crypto && typeof crypto.getRandomValues === "function") {
+    return crypto.getRandomValues(bytes);
+  }
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+}
+
+function randomBytes(count: number): Uint8Array {
+  if (poolOffset + count > pool.length) {
+    pool = fillRandom(new Uint8Array(Math.max(1024, count)));
+    poolOffset = 0;
+  }
+  const bytes = pool.subarray(poolOffset, poolOffset + count);
+  poolOffset += count;
+  return bytes;
+}
+
+function createUlidGenerator(): IdGenerator {
+  let lastTime = -1;
+  const random: number[] = new Array(16).fill(0);
+
+  return () => {
+    const now = Date.now();
+    if (now > lastTime) {
+      lastTime = now;
+      const bytes = randomBytes(16);
+      for (let i = 0; i < 16; i++) random[i] = (bytes[i] as number) & 31;
+    } else {
+      // Same millisecond (or the clock went back): increment the random part
+      let i = 15;
+      while (i >= 0 && random[i] === 31) random[i--] = 0;
+      if (i >= 0) random[i] = (random[i] as number) + 1;
+    }
+
+    let id = "";
+    let time = lastTime;
+    for (let i = 0; i < 10; i++) {
+      id = CROCKFORD[time % 32] + id;
+      time = Math.floor(time / 32);
+    }
+    for (const digit of random) id += CROCKFORD[digit];
+    return id;
+  };
+}
+
+function createUuidV7Generator(): IdGenerator {
+  let lastTime = -1;
+  let counter = 0;
+
+  return () => {
+    const now = Date.now();
+    const bytes = randomBytes(16);
+    if (now > lastTime) {
+      lastTime = now;
+      // Start low so many IDs fit in the same millisecond
+      counter = (((bytes[6] as number) << 8) | (bytes[7] as number)) & 0x7ff;
+    } else if (++counter > 0xfff) {
+      // 12-bit counter exhausted: borrow the next millisecond
+      lastTime++;
+      counter = 0;
+    }
+
+    let time = lastTime;
+    for (let i = 5; i >= 0; i--) {
+      bytes[i] = time % 256;
+      time = Math.floor(time / 256);
+    }
+    bytes[6] = 0x70 | (counter >> 8);
+    bytes[7] = counter & 0xff;
+    bytes[8] = 0x80 | ((bytes[8] as number) & 0x3f);
+
+    let id = "";
+    for (let i = 0; i < 16; i++) {
+      if (i === 4 || i === 6 || i === 8 || i === 10) id += "-";
+      id += HEX[bytes[i] as number];
+    }
+    return id;
+  };
+}
+
+function createCounterGenerator(): IdGenerator {
+  let prefix = "";
+  for (const byte of randomBytes(8)) prefix += CROCKFORD[byte & 31];
+  let count = 0;
+  return () => `${prefix}-${++count}`;
+}
+
+/**
+ * Resolve `LoggerOptions.idGenerator` to a generator.
+ * Each call to a built-in name returns a fresh generator with its own state.
+ */
+export function createIdGenerator(
+  generator: IdGeneratorName | IdGenerator = "cuid2",
+): IdGenerator {
+  if (typeof generator === "function") return generator;
+  switch (generator) {
+    case "cuid2":
+      return createId;
+    case "ulid":
+      return createUlidGenerator();
+    case "uuidv7":
+      return createUuidV7Generator();
+    case "counter":
+      return createCounterGenerator();
+    case "none":
+      return () => "";
+    default:
+      throw new Error(`[voltlog] Unknown idGenerator "${generator}"`);
+  }
+}
+
+let lastSeq = 0;
+
+/** Next value of the per-process `LogEntry.seq` counter */
+export function nextSeq(): number {
+  return ++lastSeq;
+}
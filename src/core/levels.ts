@@ -3,13 +3,32 @@
  * @description Log level utilities — filtering, comparison, resolution.
  */
 
-import { LogLevel, type LogLevelName, LogLevelNameMap } from "./types.js";
+import {
+  type CustomLevels,
+  type LevelName,
+  type LogEntry,
+  LogLevel,
+  LogLevelNameMap,
+  LogLevelValueMap,
+} from "./types.js";
+
+/**
+ * Pick a per-level style (color, emoji…): the override for the entry's
+ * level name, so custom levels can be styled, else its numeric band's.
+ */
+export function levelStyle<T>(
+  entry: Pick<LogEntry, "level" | "levelName">,
+  overrides: Record<string, T> | undefined,
+  byLevel: (level: number) => T,
+): T {
+  return overrides?.[entry.levelName] ?? byLevel(entry.level);
+}
 
 /**
  * Resolve a level name string to its numeric value.
  * Case-insensitive. Returns INFO if unrecognized.
  */
-export function resolveLevel(level: string | LogLevelName): number {
+export function resolveLevel(level: LevelName): number {
   const n = LogLevelNameMap[level.toLowerCase()];
   return n !== undefined ? n : LogLevel.INFO;
 }
@@ -26,8 +45,42 @@ export function shouldLog(entryLevel: number, filterLevel: number): boolean {
  */
 export function shouldIncludeStack(
   entryLevel: number,
-  includeStack: boolean | LogLevelName,
+  includeStack: boolean | LevelName,
 ): boolean {
   if (typeof includeStack === "boolean") return includeStack;
   return entryLevel >= resolveLevel(includeStack);
 }
+
+/**
+ * Register custom levels so `resolveLevel`, transport filters and
+ * `LogLevelValueMap` lookups understand them. Registration is global and
+ * idempotent; redefining a name or value with a different meaning throws.
+ */
+export function registerLevels(levels: CustomLevels): void {
+  for (const [rawName, value] of Object.entries(levels)) {
+    const name = rawName.toUpperCase();
+
+    if (!Number.isFinite(value)) {
+      throw new Error(
+        `[voltlog] Custom level "${name}" must have a finite numeric value`,
+      );
+    }
+
+    const existingValue = LogLevelNameMap[name.toLowerCase()];
+    if (existingValue !== undefined && existingValue !== value) {
+      throw new Error(
+        `[voltlog] Level "${name}" is already defined with value ${existingValue}`,
+      );
+    }
+
+    const existingName = LogLevelValueMap[value];
+    if (existingName !== undefined && existingName !== name) {
+      throw new Error(
+        `[voltlog] Level value ${value} is already used by "${existingName}"`,
+      );
+    }
+
+    LogLevelNameMap[name.toLowerCase()] = value;
+    LogLevelValueMap[value] = name;
+  }
+}
@@ -21,6 +21,15 @@
  * // → auto-includes context: { chargePointId: 'CP-101' }
  * ```
  *
+ * @example Typed context
+ * ```ts
+ * interface CpContext { chargePointId: string; sessionId: string }
+ *
+ * const logger = createLogger<OcppExchangeMeta, CpContext>({ transports });
+ * logger.child({ chargePointId: 'CP-101' }); // ok
+ * logger.child({ chargepointId: 'CP-101' }); // type error
+ * ```
+ *
  * @example Error with stack trace
  * ```ts
  * logger.error('Connection failed', new Error('ETIMEDOUT'));
@@ -33,80 +42,292 @@
  * ```
  */
 
-import { createId } from "@paralleldrive/cuid2";
-import { resolveLevel, shouldIncludeStack, shouldLog } from "./levels.js";
-import { composeMiddleware, fanOutToTransports } from "./pipeline.js";
-import type {
-  LogEntry,
-  LogError,
-  Logger,
-  LoggerOptions,
-  LogLevelName,
-  LogMiddleware,
-  Transport,
+import { alertMiddleware } from "../middleware/alert.js";
+import { exchangeLogMiddleware } from "../middleware/exchange-log.js";
+import { redactionMiddleware } from "../middleware/redaction.js";
+import {
+  buildConfigMiddleware,
+  buildConfigTransports,
+  type ConfigLoaderOptions,
+  validateLoggerConfig,
+} from "./config.js";
+import { watchConfigFile } from "./config-watch.js";
+import { getContext, runWithContext } from "./context.js";
+import { cloneEntry, freezeEntry, isDevMode } from "./entry.js";
+import { serializeError, serializeMetaErrors } from "./errors.js";
+import { createIdGenerator, nextSeq } from "./ids.js";
+import {
+  registerLevels,
+  resolveLevel,
+  shouldIncludeStack,
+  shouldLog,
+} from "./levels.js";
+import {
+  type NamespaceRule,
+  parseNamespaces,
+  readNamespacesFromEnv,
+  resolveNamespaceLevel,
+} from "./namespaces.js";
+import {
+  chainTransport,
+  composeMiddleware,
+  fanOutToTransports,
+  type Pipeline,
+  type PipelineOptions,
+} from "./pipeline.js";
+import {
+  formatPrintf,
+  type PrintfArgs,
+  splitPrintfArgs,
+  withExtraArgs,
+} from "./printf.js";
+import { installProcessHandlers } from "./process-handlers.js";
+import { createStatsCollector } from "./stats.js";
+import {
+  hashTemplate,
+  isMessageTemplate,
+  renderTemplate,
+  templateValues,
+} from "./template.js";
+import { hrEpochNs } from "./time.js";
+import { createTimer, timeCall } from "./timing.js";
+import {
+  type CustomLevels,
+  type ErrorSerializer,
+  type IdGenerator,
+  type InsertMiddlewareOptions,
+  type LevelMethod,
+  type LevelName,
+  type LevelsLoggerFactory,
+  type LogEntry,
+  type LogError,
+  type Logger,
+  type LoggerOptions,
+  type LoggerStats,
+  type LoggerWithLevels,
+  LogLevel,
+  LogLevelValueMap,
+  type LogMessage,
+  type LogMeta,
+  type LogMiddleware,
+  type LogTimer,
+  type NamedMiddleware,
+  type PrintfLogger,
+  type ProcessHandlerOptions,
+  type Transport,
+  type WatchConfigOptions,
 } from "./types.js";
 
+/** Evaluate lazy message/meta thunks into plain values */
+function resolveLazy<TMeta>(
+  message: LogMessage<TMeta>,
+  meta: LogMeta<TMeta> | undefined,
+): [string, Partial<TMeta> | undefined] {
+  const resolvedMeta = typeof meta === "function" ? meta() : meta;
+  if (typeof message === "string") return [message, resolvedMeta];
+
+  const result = message();
+  if (typeof result === "string") return [result, resolvedMeta];
+  return [result[0], result[1] ?? resolvedMeta];
+}
+
+/** Split the `(meta, error)` / `(error)` argument forms */
+function splitMetaOrError<TMeta>(
+  args: readonly unknown[],
+): [LogMeta<TMeta> | undefined, Error | undefined] {
+  const [metaOrError, error] = args as [
+    LogMeta<TMeta> | Error | undefined,
+    Error | undefined,
+  ];
+  return metaOrError instanceof Error
+    ? [undefined, metaOrError]
+    : [metaOrError, error];
+}
+
+/** Custom level as `[methodName, value, LEVEL_NAME]` */
+type CustomLevelEntry = [method: string, value: number, name: string];
+
+/** Add a method per custom level (e.g. `audit()` for `AUDIT`) */
+function installLevelMethods<TMeta>(
+  target: LoggerImpl<TMeta> | ChildLoggerImpl<TMeta>,
+  levels: CustomLevelEntry[],
+): void {
+  for (const [method, value, name] of levels) {
+    const fn = ((message: LogMessage<TMeta>, ...args: unknown[]) =>
+      target._log(value, name, message, args)) as LevelMethod<TMeta>;
+    (target as unknown as Record<string, LevelMethod<TMeta>>)[method] = fn;
+  }
+}
+
+/** Name for a numeric level; `SILENT` for levels with no name (Infinity) */
+function levelNameOf(level: number): LevelName {
+  return LogLevelValueMap[level] ?? "SILENT";
+}
+
+// ─── Option Middleware ──────────────────────────────────────────
+
+/**
+ * Pick a registration name. Explicit names must be unique; names taken
+ * from the function get a `#2`, `#3`… suffix when already in use.
+ */
+function middlewareName<TMeta>(
+  list: NamedMiddleware<TMeta>[],
+  middleware: LogMiddleware<TMeta>,
+  explicit?: string,
+): string {
+  const taken = (name: string) => list.some((m) => m.name === name);
+  if (explicit !== undefined) {
+    if (taken(explicit)) {
+      throw new Error(
+        `[voltlog] Middleware "${explicit}" is already registered`,
+      );
+    }
+    return explicit;
+  }
+  const base = middleware.name || "middleware";
+  let name = base;
+  for (let n = 2; taken(name); n++) name = `${base}#${n}`;
+  return name;
+}
+
+/**
+ * Expand `redact`, `alerts` and `exchangeLog` into their middleware.
+ * Redaction runs first so user middleware and alert callbacks never see
+ * raw secrets; the exchange filter runs last so alerts still see every entry.
+ */
+function buildMiddlewareList<TMeta>(
+  options: LoggerOptions<TMeta>,
+): NamedMiddleware<TMeta>[] {
+  const list: NamedMiddleware<TMeta>[] = [];
+  const add = (middleware: LogMiddleware<TMeta>, name?: string) => {
+    list.push({ name: middlewareName(list, middleware, name), middleware });
+  };
+
+  if (options.redact && options.redact.length > 0) {
+    add(redactionMiddleware<TMeta>({ paths: options.redact }), "redaction");
+  }
+
+  for (const mw of options.middleware ?? []) {
+    if (typeof mw === "function") add(mw);
+    else add(mw.middleware, mw.name);
+  }
+
+  if (options.alerts && options.alerts.length > 0) {
+    add(alertMiddleware<TMeta>(options.alerts), "alerts");
+  }
+
+  if (options.exchangeLog) {
+    add(
+      exchangeLogMiddleware<TMeta>({
+        mode: options.exchangeLog === "only" ? "only" : "both",
+      }),
+      "exchangeLog",
+    );
+  }
+
+  return list;
+}
+
+/** @internal — per-call state a child logger threads into the root */
+interface LogScope {
+  /** Minimum level for this call (default: the root level) */
+  minLevel?: number;
+  /** Namespace to stamp on the entry */
+  namespace?: string;
+  /** Added to meta once it is resolved (e.g. a timer's `durationMs`) */
+  fields?: Record<string, unknown>;
+}
+
 // ─── Logger Implementation ──────────────────────────────────────
 
 class LoggerImpl<TMeta = Record<string, unknown>> implements Logger<TMeta> {
   private _level: number;
   private _transports: Transport<TMeta>[];
-  private _middlewareList: LogMiddleware<TMeta>[];
-  private _pipeline: (entry: LogEntry<TMeta>) => void;
+  private _middlewareList: NamedMiddleware<TMeta>[];
+  private _pipeline: Pipeline<TMeta>;
+  private _pipelineOptions: PipelineOptions<TMeta>;
   private _context: Record<string, unknown>;
-  private _includeStack: boolean | LogLevelName;
+  private _includeStack: boolean | LevelName;
   private _timestampFn: () => number;
+  private _hrTimestamps: boolean;
+  /** `timestamp` is derived from the high-resolution reading */
+  private _hrOnly: boolean;
+  private _idGenerator: IdGenerator;
+  private _errorSerializer: ErrorSerializer;
+  private _maxErrorDepth: number;
+  private _freezeEntries: boolean;
+  private _messageTemplates: boolean;
+  private _printf: boolean;
+  private _onTransportError: LoggerOptions<TMeta>["onTransportError"];
+  private _fallbackTransport: Transport<TMeta> | undefined;
+  private _namespaceRules: NamespaceRule[];
+  private _namespaceLevels = new Map<string, number | undefined>();
+  private _stats = createStatsCollector();
+  private _statsTimer: ReturnType<typeof setInterval> | undefined;
+  private _uninstallProcessHandlers: (() => void) | undefined;
+  private _configWatchers = new Set<() => void>();
+  /** Transports as passed to `addTransport`, mapped to what was stored */
+  private _chained = new WeakMap<Transport<TMeta>, Transport<TMeta>>();
+  /** @internal — copied onto child loggers */
+  readonly _customLevels: CustomLevelEntry[] = [];
 
   constructor(options: LoggerOptions<TMeta> = {}) {
+    if (options.levels) this._defineLevels(options.levels);
     this._level = resolveLevel(options.level ?? "INFO");
-    this._transports = [...(options.transports ?? [])];
-    this._middlewareList = [...(options.middleware ?? [])];
+    const envName = options.namespacesEnv ?? "VOLTLOG_NAMESPACES";
+    const spec =
+      (envName ? readNamespacesFromEnv(envName) : undefined) ??
+      options.namespaces;
+    this._namespaceRules = spec ? parseNamespaces(spec) : [];
+    this._onTransportError = options.onTransportError;
+    this._fallbackTransport = options.fallbackTransport;
+    this._pipelineOptions = {
+      timeoutMs: options.middlewareTimeoutMs,
+      ordered: options.orderedMiddleware,
+      onError: options.onMiddlewareError,
+    };
+    this._transports = [];
+    for (const t of options.transports ?? []) this.addTransport(t);
+    this._middlewareList = buildMiddlewareList(options);
     this._context = options.context ? { ...options.context } : {};
     this._includeStack = options.includeStack ?? "ERROR";
     this._timestampFn = options.timestamp ?? Date.now;
-    this._pipeline = this._buildPipeline();
+    this._hrTimestamps = options.hrTimestamps ?? false;
+    this._hrOnly = this._hrTimestamps && !options.timestamp;
+    this._idGenerator = createIdGenerator(options.idGenerator);
+    this._errorSerializer = options.errorSerializer ?? serializeError;
+    this._maxErrorDepth = options.maxErrorDepth ?? 5;
+    this._freezeEntries = options.freezeEntries ?? isDevMode();
+    this._messageTemplates = options.messageTemplates ?? false;
+    this._printf = options.printf ?? false;
+    this._pipeline = this._buildPipeline(this._middlewareList);
+    if (options.statsInterval) this._startStatsInterval(options.statsInterval);
   }
 
   // ─── Log Methods ────────────────────────────────────────────
 
-  trace(message: string, meta?: Partial<TMeta>): void {
-    this._log(10, "TRACE", message, meta);
+  trace(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.TRACE, "TRACE", message, args);
   }
 
-  debug(message: string, meta?: Partial<TMeta>): void {
-    this._log(20, "DEBUG", message, meta);
+  debug(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.DEBUG, "DEBUG", message, args);
   }
 
-  info(message: string, meta?: Partial<TMeta>): void {
-    this._log(30, "INFO", message, meta);
+  info(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.INFO, "INFO", message, args);
   }
 
-  warn(message: string, meta?: Partial<TMeta>): void {
-    this._log(40, "WARN", message, meta);
+  warn(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.WARN, "WARN", message, args);
   }
 
-  error(
-    message: string,
-    metaOrError?: Partial<TMeta> | Error,
-    error?: Error,
-  ): void {
-    if (metaOrError instanceof Error) {
-      this._log(50, "ERROR", message, undefined, metaOrError);
-    } else {
-      this._log(50, "ERROR", message, metaOrError, error);
-    }
+  error(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.ERROR, "ERROR", message, args);
   }
 
-  fatal(
-    message: string,
-    metaOrError?: Partial<TMeta> | Error,
-    error?: Error,
-  ): void {
-    if (metaOrError instanceof Error) {
-      this._log(60, "FATAL", message, undefined, metaOrError);
-    } else {
-      this._log(60, "FATAL", message, metaOrError, error);
-    }
+  fatal(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.FATAL, "FATAL", message, args);
   }
 
   // ─── Child Logger ───────────────────────────────────────────
@@ -115,30 +336,185 @@ class LoggerImpl<TMeta = Record<string, unknown>> implements Logger<TMeta> {
     return new ChildLoggerImpl<TMeta>(this, { ...this._context, ...context });
   }
 
+  namespace(name: string): Logger<TMeta> {
+    return new ChildLoggerImpl<TMeta>(
+      this,
+      { ...this._context },
+      undefined,
+      name,
+    );
+  }
+
+  // ─── Stats ──────────────────────────────────────────────────
+
+  stats(): LoggerStats {
+    return this._stats.snapshot(this._transports);
+  }
+
+  // ─── Process Handlers ───────────────────────────────────────
+
+  installProcessHandlers(options?: ProcessHandlerOptions): () => void {
+    if (!this._uninstallProcessHandlers) {
+      const uninstall = installProcessHandlers(this, options);
+      this._uninstallProcessHandlers = () => {
+        uninstall();
+        this._uninstallProcessHandlers = undefined;
+      };
+    }
+    return this._uninstallProcessHandlers;
+  }
+
+  // ─── Config Watching ────────────────────────────────────────
+
+  watchConfig(path: string, options?: WatchConfigOptions): () => void {
+    const stop = watchConfigFile<TMeta>(
+      {
+        logger: this,
+        log: (level, message, meta, error) => {
+          const value = resolveLevel(level);
+          this._log(value, levelNameOf(value), message, [meta, error]);
+        },
+        detachTransport: (transport) => {
+          const stored = this._chained.get(transport) ?? transport;
+          if (!this._transports.includes(stored)) return undefined;
+          this._transports = this._transports.filter((t) => t !== stored);
+          return stored;
+        },
+        drain: () => this._pipeline.drain(),
+      },
+      path,
+      options,
+    );
+    const unwatch = () => {
+      stop();
+      this._configWatchers.delete(unwatch);
+    };
+    this._configWatchers.add(unwatch);
+    return unwatch;
+  }
+
+  // ─── Context ────────────────────────────────────────────────
+
+  runWithContext<T>(context: Record<string, unknown>, fn: () => T): T {
+    return runWithContext(context, fn);
+  }
+
+  // ─── Timing ─────────────────────────────────────────────────
+
+  startTimer(): LogTimer<TMeta> {
+    return createTimer<TMeta>(this._log.bind(this));
+  }
+
+  time<T>(label: string, fn: () => T, meta?: Partial<TMeta>): T {
+    return timeCall(this._log.bind(this), label, fn, meta);
+  }
+
+  // ─── Level Control ──────────────────────────────────────────
+
+  setLevel(level: LevelName): void {
+    this._level = resolveLevel(level);
+  }
+
+  getLevel(): LevelName {
+    return levelNameOf(this._level);
+  }
+
+  isLevelEnabled(level: LevelName): boolean {
+    return shouldLog(resolveLevel(level), this._level);
+  }
+
   // ─── Dynamic Configuration ─────────────────────────────────
 
   addTransport(transport: Transport<TMeta>): void {
-    this._transports.push(transport);
+    // Always bound so failures are counted; without handlers the
+    // transport keeps its own default reporting
+    transport.setErrorReporter?.((err, entries) => {
+      for (const entry of entries) {
+        this._stats.failed(transport.name);
+        this._handleTransportError(err, transport, entry);
+      }
+      return Boolean(this._onTransportError || this._fallbackTransport);
+    });
+    transport.setEntryFactory?.((levelName, message, meta) => ({
+      ...this._stamp(),
+      level: resolveLevel(levelName),
+      levelName,
+      message,
+      meta,
+    }));
+    // Transports with their own middleware get a chain in front of write()
+    const chained = chainTransport(
+      transport,
+      this._pipelineOptions,
+      (err, t, entry) => {
+        this._stats.failed(t.name);
+        this._handleTransportError(err, t, entry);
+      },
+    );
+    this._chained.set(transport, chained);
+    this._transports.push(chained);
   }
 
   removeTransport(name: string): void {
     this._transports = this._transports.filter((t) => t.name !== name);
   }
 
-  addMiddleware(middleware: LogMiddleware<TMeta>): void {
-    this._middlewareList.push(middleware);
-    this._pipeline = this._buildPipeline();
+  addMiddleware(middleware: LogMiddleware<TMeta>, name?: string): void {
+    this.insertMiddleware(middleware, { name });
+  }
+
+  insertMiddleware(
+    middleware: LogMiddleware<TMeta>,
+    options: InsertMiddlewareOptions,
+  ): void {
+    const list = [...this._middlewareList];
+    const anchor = options.before ?? options.after;
+    let index = list.length;
+    if (anchor !== undefined) {
+      const i = list.findIndex((m) => m.name === anchor);
+      if (i === -1) {
+        throw new Error(`[voltlog] No middleware named "${anchor}"`);
+      }
+      index = options.before !== undefined ? i : i + 1;
+    }
+    const name = middlewareName(list, middleware, options.name);
+    list.splice(index, 0, { name, middleware });
+    this._setMiddleware(list);
+  }
+
+  removeMiddleware(name: string): boolean {
+    const list = this._middlewareList.filter((m) => m.name !== name);
+    if (list.length === this._middlewareList.length) return false;
+    this._setMiddleware(list);
+    return true;
+  }
+
+  listMiddleware(): string[] {
+    return this._middlewareList.map((m) => m.name);
   }
 
   // ─── Lifecycle ──────────────────────────────────────────────
 
   async flush(): Promise<void> {
+    await this._pipeline.drain();
     await Promise.all(this._transports.map((t) => t.flush?.()).filter(Boolean));
+    // Flushing the primaries can fail entries over, so the fallback goes last
+    await this._fallbackTransport?.flush?.();
   }
 
   async close(): Promise<void> {
-    await this.flush();
-    await Promise.all(this._transports.map((t) => t.close?.()).filter(Boolean));
+    if (this._statsTimer) clearInterval(this._statsTimer);
+    for (const unwatch of this._configWatchers) unwatch();
+    try {
+      await this.flush();
+      await Promise.all(
+        this._transports.map((t) => t.close?.()).filter(Boolean),
+      );
+      await this._fallbackTransport?.close?.();
+    } finally {
+      // Last, so a crash or signal during shutdown is still handled
+      this._uninstallProcessHandlers?.();
+    }
   }
 
   // ─── Internal ───────────────────────────────────────────────
@@ -147,53 +523,249 @@ class LoggerImpl<TMeta = Record<string, unknown>> implements Logger<TMeta> {
   _log(
     level: number,
     levelName: string,
-    message: string,
-    meta?: Partial<TMeta>,
-    error?: Error,
+    message: LogMessage<TMeta>,
+    args: readonly unknown[],
+    fields?: Record<string, unknown>,
   ): void {
-    this._logWithContext(level, levelName, message, this._context, meta, error);
+    this._logWithContext(level, levelName, message, this._context, args, {
+      fields,
+    });
+  }
+
+  /** @internal */
+  _effectiveLevel(): number {
+    return this._level;
+  }
+
+  /** @internal — level from the `namespaces` spec, cached per namespace */
+  _namespaceLevel(namespace: string): number | undefined {
+    if (this._namespaceRules.length === 0) return undefined;
+    if (!this._namespaceLevels.has(namespace)) {
+      this._namespaceLevels.set(
+        namespace,
+        resolveNamespaceLevel(this._namespaceRules, namespace),
+      );
+    }
+    return this._namespaceLevels.get(namespace);
   }
 
-  /** @internal — used by child loggers to inject bound context */
+  /** @internal — used by child loggers to inject bound context, level and namespace */
   _logWithContext(
     level: number,
     levelName: string,
-    message: string,
+    message: LogMessage<TMeta>,
     context: Record<string, unknown>,
-    meta?: Partial<TMeta>,
-    error?: Error,
+    args: readonly unknown[],
+    scope: LogScope = {},
   ): void {
-    if (!shouldLog(level, this._level)) return;
+    if (!shouldLog(level, scope.minLevel ?? this._level)) return;
+
+    const ambient = getContext();
+    if (ambient) context = { ...ambient, ...context };
+
+    let meta: LogMeta<TMeta> | undefined;
+    let error: Error | undefined;
+    let printf: PrintfArgs | undefined;
+    if (this._printf && typeof message === "string") {
+      printf = splitPrintfArgs(message, args);
+      meta = printf.meta as LogMeta<TMeta> | undefined;
+      error = printf.error;
+    } else {
+      [meta, error] = splitMetaOrError(args);
+    }
+
+    // Lazy message/meta is evaluated only now that the level is enabled.
+    // A throwing thunk becomes an error entry instead of crashing the caller.
+    let resolvedMessage: string;
+    let resolvedMeta: Partial<TMeta> | undefined;
+    try {
+      [resolvedMessage, resolvedMeta] = resolveLazy(message, meta);
+    } catch (err) {
+      resolvedMessage =
+        typeof message === "string" ? message : "Lazy log evaluation failed";
+      resolvedMeta = undefined;
+      error = err instanceof Error ? err : new Error(String(err));
+      if (level < LogLevel.ERROR) {
+        level = LogLevel.ERROR;
+        levelName = "ERROR";
+      }
+    }
+    // Argument text must never be read as `{placeholders}`
+    const formatted = printf !== undefined && printf.values.length > 0;
+    if (printf) {
+      resolvedMessage = formatPrintf(resolvedMessage, printf.values);
+      if (printf.rest.length > 0) {
+        resolvedMeta = withExtraArgs(resolvedMeta, printf.rest);
+      }
+    }
+    if (scope.fields) {
+      resolvedMeta = { ...resolvedMeta, ...scope.fields } as Partial<TMeta>;
+    }
+
+    const includeStack = shouldIncludeStack(level, this._includeStack);
+    const serialize = (err: Error) => this._serializeError(err, includeStack);
 
     const entry: LogEntry<TMeta> = {
-      id: createId(),
+      ...this._stamp(),
       level,
-      levelName: levelName as LogLevelName,
-      message,
-      timestamp: this._timestampFn(),
-      meta: (meta ?? {}) as TMeta,
+      levelName: levelName as LevelName,
+      message: resolvedMessage,
+      meta: (resolvedMeta
+        ? serializeMetaErrors(resolvedMeta, serialize, this._maxErrorDepth)
+        : {}) as TMeta,
       context: Object.keys(context).length > 0 ? context : undefined,
     };
 
-    if (error) {
-      const logError: LogError = {
-        message: error.message,
-        name: error.name,
-        code: (error as NodeJS.ErrnoException).code,
-      };
-      if (shouldIncludeStack(level, this._includeStack)) {
-        logError.stack = error.stack;
-      }
-      entry.error = logError;
+    if (scope.namespace) entry.namespace = scope.namespace;
+    if (error) entry.error = serialize(error);
+    if (
+      this._messageTemplates &&
+      !formatted &&
+      isMessageTemplate(entry.message)
+    ) {
+      entry.messageTemplate = entry.message;
+      entry.templateHash = hashTemplate(entry.message);
+      entry.message = renderTemplate(entry.message, templateValues(entry));
     }
 
     this._pipeline(entry);
   }
 
-  private _buildPipeline(): (entry: LogEntry<TMeta>) => void {
-    return composeMiddleware(this._middlewareList, (entry) => {
-      fanOutToTransports(entry, this._transports, this._level);
-    });
+  /** Identity and time of a new entry, from the configured id generator and clock */
+  private _stamp(): Pick<
+    LogEntry<TMeta>,
+    "id" | "seq" | "timestamp" | "timestampNs"
+  > {
+    const ns = this._hrTimestamps ? hrEpochNs() : undefined;
+    const stamp: Pick<
+      LogEntry<TMeta>,
+      "id" | "seq" | "timestamp" | "timestampNs"
+    > = {
+      id: this._idGenerator(),
+      seq: nextSeq(),
+      timestamp:
+        ns !== undefined && this._hrOnly
+          ? Number(ns / 1_000_000n)
+          : this._timestampFn(),
+    };
+    if (ns !== undefined) stamp.timestampNs = ns.toString();
+    return stamp;
+  }
+
+  /** Run the configured serializer, falling back to the default if it throws */
+  private _serializeError(error: Error, includeStack: boolean): LogError {
+    const options = { includeStack, maxDepth: this._maxErrorDepth };
+    try {
+      return this._errorSerializer(error, options);
+    } catch {
+      return serializeError(error, options);
+    }
+  }
+
+  /** Report a failed delivery and hand the entry to the fallback transport */
+  private _handleTransportError(
+    error: unknown,
+    transport: Transport<TMeta>,
+    entry: LogEntry<TMeta>,
+  ): void {
+    try {
+      this._onTransportError?.(error, transport, entry);
+    } catch {
+      /* Error handler failures swallowed */
+    }
+
+    const fallback = this._fallbackTransport;
+    if (!fallback || fallback === transport) return;
+
+    try {
+      const result = fallback.write(entry);
+      if (result && typeof (result as Promise<void>).catch === "function") {
+        (result as Promise<void>).catch(() => {
+          /* Fallback errors swallowed — nowhere left to send them */
+        });
+      }
+    } catch {
+      /* Fallback errors swallowed — nowhere left to send them */
+    }
+  }
+
+  /** Register custom levels globally and generate their methods */
+  private _defineLevels(levels: CustomLevels): void {
+    for (const name of Object.keys(levels)) {
+      const method = name.toLowerCase();
+      if (method in this) {
+        throw new Error(
+          `[voltlog] Custom level "${name}" collides with logger method "${method}"`,
+        );
+      }
+    }
+    registerLevels(levels);
+    for (const [name, value] of Object.entries(levels)) {
+      this._customLevels.push([name.toLowerCase(), value, name.toUpperCase()]);
+    }
+    installLevelMethods(this, this._customLevels);
+  }
+
+  /**
+   * Swap in a new middleware list. The list and its pipeline are replaced
+   * together; entries already inside the old pipeline finish there.
+   */
+  private _setMiddleware(list: NamedMiddleware<TMeta>[]): void {
+    const pipeline = this._buildPipeline(list);
+    this._middlewareList = list;
+    this._pipeline = pipeline;
+  }
+
+  private _buildPipeline(list: NamedMiddleware<TMeta>[]): Pipeline<TMeta> {
+    // Entries still inside the previous pipeline finish there first,
+    // so a rebuild never lets new entries overtake them.
+    return composeMiddleware(
+      list.map((m) => m.middleware),
+      (entry) => {
+        this._stats.emitted(entry.levelName);
+        // Freeze a copy — `meta` may still be the caller's own object
+        const shared = this._freezeEntries
+          ? (freezeEntry(cloneEntry(entry)) as LogEntry<TMeta>)
+          : entry;
+        // Logger and child levels are enforced before the entry is built,
+        // so only per-transport filters apply here.
+        fanOutToTransports(
+          shared,
+          this._transports,
+          -Infinity,
+          this._onTransportError || this._fallbackTransport
+            ? (err, t, e) => this._handleTransportError(err, t, e)
+            : undefined,
+          (t, latencyMs, failed) =>
+            this._stats.written(t.name, latencyMs, failed),
+        );
+      },
+      {
+        ...this._pipelineOptions,
+        after: this._pipeline?.pending(),
+        // Counted under the registration name. Plain functions register
+        // under their function name, which is why built-in middleware
+        // such as `sampling` and `deduplication` return a named function.
+        onDrop: (_entry, i, delta) =>
+          this._stats.dropped(list[i]?.name ?? `middleware[${i}]`, delta),
+      },
+    );
+  }
+
+  /** Periodically log a stats snapshot */
+  private _startStatsInterval({
+    intervalMs,
+    level = "INFO",
+  }: NonNullable<LoggerOptions<TMeta>["statsInterval"]>): void {
+    const value = resolveLevel(level);
+    const name = levelNameOf(value);
+    this._statsTimer = setInterval(() => {
+      this._log(value, name, "[voltlog] Logger stats", [
+        { stats: this.stats() },
+      ]);
+    }, intervalMs);
+    // Don't keep Node.js alive just for stats
+    (this._statsTimer as { unref?: () => void }).unref?.();
   }
 }
 
@@ -202,79 +774,82 @@ class LoggerImpl<TMeta = Record<string, unknown>> implements Logger<TMeta> {
 class ChildLoggerImpl<TMeta = Record<string, unknown>>
   implements Logger<TMeta>
 {
+  /** Own level — `undefined` inherits from the parent chain */
+  private _level: number | undefined;
+
   constructor(
     private _parent: LoggerImpl<TMeta>,
     private _context: Record<string, unknown>,
-  ) {}
+    private _inherit?: ChildLoggerImpl<TMeta>,
+    private _namespace?: string,
+  ) {
+    installLevelMethods(this, _parent._customLevels);
+  }
 
-  trace(message: string, meta?: Partial<TMeta>): void {
-    this._parent._logWithContext(10, "TRACE", message, this._context, meta);
+  trace(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.TRACE, "TRACE", message, args);
   }
-  debug(message: string, meta?: Partial<TMeta>): void {
-    this._parent._logWithContext(20, "DEBUG", message, this._context, meta);
+  debug(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.DEBUG, "DEBUG", message, args);
   }
-  info(message: string, meta?: Partial<TMeta>): void {
-    this._parent._logWithContext(30, "INFO", message, this._context, meta);
+  info(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.INFO, "INFO", message, args);
   }
-  warn(message: string, meta?: Partial<TMeta>): void {
-    this._parent._logWithContext(40, "WARN", message, this._context, meta);
+  warn(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.WARN, "WARN", message, args);
   }
-  error(
-    message: string,
-    metaOrError?: Partial<TMeta> | Error,
-    error?: Error,
-  ): void {
-    if (metaOrError instanceof Error) {
-      this._parent._logWithContext(
-        50,
-        "ERROR",
-        message,
-        this._context,
-        undefined,
-        metaOrError,
-      );
-    } else {
-      this._parent._logWithContext(
-        50,
-        "ERROR",
-        message,
-        this._context,
-        metaOrError,
-        error,
-      );
-    }
+  error(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.ERROR, "ERROR", message, args);
   }
-  fatal(
-    message: string,
-    metaOrError?: Partial<TMeta> | Error,
-    error?: Error,
-  ): void {
-    if (metaOrError instanceof Error) {
-      this._parent._logWithContext(
-        60,
-        "FATAL",
-        message,
-        this._context,
-        undefined,
-        metaOrError,
-      );
-    } else {
-      this._parent._logWithContext(
-        60,
-        "FATAL",
-        message,
-        this._context,
-        metaOrError,
-        error,
-      );
-    }
+  fatal(message: LogMessage<TMeta>, ...args: unknown[]): void {
+    this._log(LogLevel.FATAL, "FATAL", message, args);
   }
 
   child(context: Record<string, unknown>): Logger<TMeta> {
-    return new ChildLoggerImpl<TMeta>(this._parent, {
-      ...this._context,
-      ...context,
-    });
+    return new ChildLoggerImpl<TMeta>(
+      this._parent,
+      { ...this._context, ...context },
+      this,
+      this._namespace,
+    );
+  }
+
+  namespace(name: string): Logger<TMeta> {
+    return new ChildLoggerImpl<TMeta>(
+      this._parent,
+      { ...this._context },
+      this,
+      this._namespace ? `${this._namespace}:${name}` : name,
+    );
+  }
+
+  stats(): LoggerStats {
+    return this._parent.stats();
+  }
+  installProcessHandlers(options?: ProcessHandlerOptions): () => void {
+    return this._parent.installProcessHandlers(options);
+  }
+  watchConfig(path: string, options?: WatchConfigOptions): () => void {
+    return this._parent.watchConfig(path, options);
+  }
+  runWithContext<T>(context: Record<string, unknown>, fn: () => T): T {
+    return runWithContext(context, fn);
+  }
+  startTimer(): LogTimer<TMeta> {
+    return createTimer<TMeta>(this._log.bind(this));
+  }
+  time<T>(label: string, fn: () => T, meta?: Partial<TMeta>): T {
+    return timeCall(this._log.bind(this), label, fn, meta);
+  }
+
+  setLevel(level: LevelName): void {
+    this._level = resolveLevel(level);
+  }
+  getLevel(): LevelName {
+    return levelNameOf(this._effectiveLevel());
+  }
+  isLevelEnabled(level: LevelName): boolean {
+    return shouldLog(resolveLevel(level), this._effectiveLevel());
   }
 
   addTransport(transport: Transport<TMeta>): void {
@@ -283,8 +858,20 @@ class ChildLoggerImpl<TMeta = Record<string, unknown>>
   removeTransport(name: string): void {
     this._parent.removeTransport(name);
   }
-  addMiddleware(middleware: LogMiddleware<TMeta>): void {
-    this._parent.addMiddleware(middleware);
+  addMiddleware(middleware: LogMiddleware<TMeta>, name?: string): void {
+    this._parent.addMiddleware(middleware, name);
+  }
+  insertMiddleware(
+    middleware: LogMiddleware<TMeta>,
+    options: InsertMiddlewareOptions,
+  ): void {
+    this._parent.insertMiddleware(middleware, options);
+  }
+  removeMiddleware(name: string): boolean {
+    return this._parent.removeMiddleware(name);
+  }
+  listMiddleware(): string[] {
+    return this._parent.listMiddleware();
   }
   flush(): Promise<void> {
     return this._parent.flush();
@@ -292,6 +879,42 @@ class ChildLoggerImpl<TMeta = Record<string, unknown>>
   close(): Promise<void> {
     return this._parent.close();
   }
+
+  /**
+   * @internal — own level, then the `namespaces` spec, then the parent chain.
+   */
+  _effectiveLevel(): number {
+    return (
+      this._level ??
+      (this._namespace
+        ? this._parent._namespaceLevel(this._namespace)
+        : undefined) ??
+      this._inherit?._effectiveLevel() ??
+      this._parent._effectiveLevel()
+    );
+  }
+
+  /** @internal */
+  _log(
+    level: number,
+    levelName: string,
+    message: LogMessage<TMeta>,
+    args: readonly unknown[],
+    fields?: Record<string, unknown>,
+  ): void {
+    this._parent._logWithContext(
+      level,
+      levelName,
+      message,
+      this._context,
+      args,
+      {
+        minLevel: this._effectiveLevel(),
+        namespace: this._namespace,
+        fields,
+      },
+    );
+  }
 }
 
 // ─── Factory ─────────────────────────────────────────────────────
@@ -317,6 +940,22 @@ class ChildLoggerImpl<TMeta = Record<string, unknown>>
  * });
  * ```
  *
+ * @example Custom levels
+ * ```ts
+ * const logger = createLogger({
+ *   levels: { NOTICE: 35, AUDIT: 45, SECURITY: 55 },
+ *   transports: [prettyTransport({ level: 'AUDIT' })],
+ * });
+ *
+ * logger.audit('Tariff changed', { tariffId: 't-1' });
+ *
+ * // With an explicit meta type, pass the levels first
+ * const ocppLogger = createLogger.withLevels({ AUDIT: 45 })<OcppExchangeMeta>({
+ *   transports: [prettyTransport()],
+ * });
+ * ocppLogger.audit('Tariff changed', { action: 'SetChargingProfile' });
+ * ```
+ *
  * @example OCPP-aware with child loggers
  * ```ts
  * import { createLogger, prettyTransport } from 'voltlog-io';
@@ -336,8 +975,73 @@ class ChildLoggerImpl<TMeta = Record<string, unknown>>
  * });
  * ```
  */
+export function createLogger<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+  TLevels extends CustomLevels = Record<never, number>,
+>(
+  options: LoggerOptions<TMeta, TContext> & { levels?: TLevels; printf: true },
+): PrintfLogger<TMeta, TContext, TLevels>;
+export function createLogger<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+  TLevels extends CustomLevels = Record<never, number>,
+>(
+  options?: LoggerOptions<TMeta, TContext> & { levels?: TLevels },
+): LoggerWithLevels<TMeta, TContext, TLevels>;
 export function createLogger<TMeta = Record<string, unknown>>(
   options?: LoggerOptions<TMeta>,
-): Logger<TMeta> {
+): unknown {
+  // Context is only typed at the API surface; internally it's a plain record
   return new LoggerImpl<TMeta>(options);
 }
+
+/**
+ * Choose custom levels before the meta and context types. TypeScript can't
+ * infer `levels` once other type arguments are given explicitly, so
+ * `createLogger<OcppExchangeMeta>({ levels })` has no typed level methods.
+ */
+createLogger.withLevels = <TLevels extends CustomLevels>(
+  levels: TLevels,
+): LevelsLoggerFactory<TLevels> =>
+  ((options: LoggerOptions = {}) =>
+    new LoggerImpl({ ...options, levels })) as LevelsLoggerFactory<TLevels>;
+
+/**
+ * Validate `config` (typically parsed JSON/YAML) and build a logger from it
+ * using the registered transport and middleware factories.
+ * Throws a `ConfigValidationError` listing every problem found.
+ * The return type can't follow the config, so cast to `PrintfLogger` when
+ * it sets `printf: true`.
+ *
+ * @example
+ * ```ts
+ * const logger = createLoggerFromConfig({
+ *   level: '${LOG_LEVEL:-INFO}',
+ *   transports: [{ type: 'loki', host: '${LOKI_HOST}' }],
+ *   middleware: [{ type: 'sampling', maxPerWindow: 100 }],
+ * });
+ * ```
+ */
+export function createLoggerFromConfig<TMeta = Record<string, unknown>>(
+  config: unknown,
+  options: ConfigLoaderOptions<TMeta> = {},
+): Logger<TMeta> {
+  const resolved = validateLoggerConfig(config, options);
+  const { transports: _t, middleware: _m, ...root } = resolved;
+  const defaults = options.defaults ?? {};
+
+  return createLogger<TMeta>({
+    ...defaults,
+    ...(root as LoggerOptions<TMeta>),
+    ...(root.level !== undefined && { level: root.level as LevelName }),
+    transports: [
+      ...(defaults.transports ?? []),
+      ...(buildConfigTransports(resolved) as Transport<TMeta>[]),
+    ],
+    middleware: [
+      ...(defaults.middleware ?? []),
+      ...(buildConfigMiddleware(resolved) as NamedMiddleware<TMeta>[]),
+    ],
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * @module voltlog-io
+ * @description Namespace utilities — DEBUG-style pattern specs mapping namespaces to levels.
+ *
+ * @example
+ * ```ts
+ * const rules = parseNamespaces('ocpp:*=DEBUG,db=WARN,-ocpp:heartbeat,*=INFO');
+ * resolveNamespaceLevel(rules, 'ocpp:server'); // 20 (DEBUG)
+ * resolveNamespaceLevel(rules, 'ocpp:heartbeat'); // Infinity (SILENT)
+ * ```
+ */
+
+import { resolveLevel } from "./levels.js";
+import { LogLevel } from "./types.js";
+
+export interface NamespaceRule {
+  /** Original pattern (e.g. `ocpp:*`) */
+  pattern: string;
+  /** Minimum level for matching namespaces */
+  level: number;
+  /** Number of literal (non-wildcard) characters — higher wins */
+  specificity: number;
+  matcher: RegExp;
+}
+
+/**
+ * Parse a namespace spec. Entries are separated by commas or whitespace:
+ * - `pattern=LEVEL` — minimum level for matching namespaces
+ * - `pattern` — enable everything (TRACE) for matching namespaces
+ * - `-pattern` — silence matching namespaces
+ *
+ * `*` matches any sequence of characters, including `:`.
+ */
+export function parseNamespaces(spec: string): NamespaceRule[] {
+  const rules: NamespaceRule[] = [];
+
+  for (const part of spec.split(/[\s,]+/)) {
+    if (!part) continue;
+
+    let pattern = part;
+    let level: number = LogLevel.TRACE;
+
+    if (pattern.startsWith("-")) {
+      pattern = pattern.slice(1);
+      level = LogLevel.SILENT;
+    } else {
+      const eq = pattern.indexOf("=");
+      if (eq !== -1) {
+        level = resolveLevel(pattern.slice(eq + 1));
+        pattern = pattern.slice(0, eq);
+      }
+    }
+
+    if (!pattern) continue;
+
+    const source = pattern
+      .split("*")
+      .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+
+    rules.push({
+      pattern,
+      level,
+      specificity: pattern.replace(/\*/g, "").length,
+      matcher: new RegExp(`^${source}$`),
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Find the level for a namespace. The most specific matching rule wins;
+ * on a tie the later rule wins. Returns `undefined` if nothing matches.
+ */
+export function resolveNamespaceLevel(
+  rules: NamespaceRule[],
+  namespace: string,
+): number | undefined {
+  let best: NamespaceRule | undefined;
+  for (const rule of rules) {
+    if (!rule.matcher.test(namespace)) continue;
+    if (!best || rule.specificity >= best.specificity) best = rule;
+  }
+  return best?.level;
+}
+
+/**
+ * Read a namespace spec from an environment variable.
+ * Returns `undefined` outside Node.js/Bun/Deno or when the variable is unset.
+ */
+export function readNamespacesFromEnv(name: string): string | undefined {
+  if (typeof process === "undefined" || !process.env) return undefined;
+  const value = process.env[name];
+  return value ? value : undefined;
+}
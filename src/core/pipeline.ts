@@ -3,60 +3,329 @@
  * @description Pipeline — middleware composition and transformer fan-out.
  */
 
+import { cloneEntry } from "./entry.js";
 import { resolveLevel, shouldLog } from "./levels.js";
+import { hrNow } from "./timing.js";
 import type { LogEntry, LogMiddleware, Transport } from "./types.js";
 
+export interface PipelineOptions<TMeta = Record<string, unknown>> {
+  /**
+   * Max time in ms an async middleware may take before it is abandoned.
+   * The entry is dropped and a timeout error is reported. Default: 5000
+   */
+  timeoutMs?: number;
+  /**
+   * Keep entries in call order while async middleware is pending.
+   * When false, entries that hit only sync middleware may overtake
+   * entries still waiting on async middleware. Default: true
+   */
+  ordered?: boolean;
+  /**
+   * Receives middleware errors (throws, rejections and timeouts).
+   * Without it, sync throws propagate to the caller and async failures
+   * are written to `console.error`.
+   */
+  onError?: (error: unknown, entry: LogEntry<TMeta>) => void;
+  /** Work that must settle before this pipeline processes entries */
+  after?: Promise<void>;
+  /**
+   * Called when middleware `index` finishes without calling `next()`
+   * (`delta: 1`), and again with `delta: -1` if it forwards the entry
+   * later after all (e.g. deduplication releasing a held entry).
+   */
+  onDrop?: (entry: LogEntry<TMeta>, index: number, delta: 1 | -1) => void;
+}
+
+/** A composed middleware chain that can be awaited for in-flight work. */
+export interface Pipeline<TMeta = Record<string, unknown>> {
+  (entry: LogEntry<TMeta>): void;
+  /** Pending async work, or `undefined` when the pipeline is idle */
+  pending(): Promise<void> | undefined;
+  /** Resolves once every in-flight async middleware has settled */
+  drain(): Promise<void>;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<void> {
+  return !!value && typeof (value as PromiseLike<void>).then === "function";
+}
+
+const noop = (): void => {};
+
 /**
  * Build a composed middleware function from an array of middleware.
  * Each middleware calls `next()` to pass the entry forward.
  * Omit `next()` to drop the entry (e.g. sampling).
+ *
+ * Middleware may be async. Its promise is raced against `timeoutMs`,
+ * and while it is pending later entries queue behind it (unless
+ * `ordered: false`), so transports still see entries in call order.
  */
 export function composeMiddleware<TMeta = Record<string, unknown>>(
   middleware: LogMiddleware<TMeta>[],
   final: (entry: LogEntry<TMeta>) => void,
-): (entry: LogEntry<TMeta>) => void {
-  if (middleware.length === 0) return final;
+  options: PipelineOptions<TMeta> = {},
+): Pipeline<TMeta> {
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const ordered = options.ordered ?? true;
+  const onError = options.onError;
+  const onDrop = options.onDrop;
 
-  return (entry: LogEntry<TMeta>) => {
-    let index = 0;
+  const inFlight = new Set<Promise<void>>();
+  let tail: Promise<void> | undefined;
 
-    const next = (e: LogEntry<TMeta>): void => {
-      if (index < middleware.length) {
-        // biome-ignore lint/style/noNonNullAssertion: Guarded by length check
-        const mw = middleware[index++]!;
-        mw(e, next);
-      } else {
+  function report(err: unknown, entry: LogEntry<TMeta>): void {
+    if (onError) {
+      try {
+        onError(err, entry);
+      } catch {
+        /* Error handler failures swallowed */
+      }
+      return;
+    }
+    console.error("[voltlog] Middleware failed", err);
+  }
+
+  function track(work: Promise<void>): void {
+    const settled = work.then(noop, noop);
+    inFlight.add(settled);
+    if (ordered) tail = settled;
+    settled.then(() => {
+      inFlight.delete(settled);
+      if (tail === settled) tail = undefined;
+    });
+  }
+
+  /**
+   * Run one entry through the chain. Returns a promise when any
+   * middleware went async, `undefined` when everything ran sync.
+   */
+  function run(entry: LogEntry<TMeta>, sync: boolean): Promise<void> | void {
+    let outstanding = 0;
+    let syncPhase = sync;
+    let resolveDone: (() => void) | undefined;
+
+    const settle = (
+      result: PromiseLike<void>,
+      e: LogEntry<TMeta>,
+      abandon: () => void,
+      done: () => void,
+    ): void => {
+      outstanding++;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Middleware timed out after ${timeoutMs}ms`)),
+          timeoutMs,
+        );
+      });
+
+      Promise.race([result, timeout])
+        .then(done, (err) => {
+          abandon();
+          report(err, e);
+        })
+        .finally(() => {
+          clearTimeout(timer);
+          if (--outstanding === 0) resolveDone?.();
+        });
+    };
+
+    const dispatch = (i: number, e: LogEntry<TMeta>): void => {
+      if (i >= middleware.length) {
         final(e);
+        return;
+      }
+
+      // biome-ignore lint/style/noNonNullAssertion: Guarded by length check
+      const mw = middleware[i]!;
+      let abandoned = false;
+      let forwarded = false;
+      let dropped = false;
+      const next = (n: LogEntry<TMeta>): void => {
+        if (abandoned) return;
+        forwarded = true;
+        if (dropped) {
+          dropped = false;
+          onDrop?.(e, i, -1);
+        }
+        dispatch(i + 1, n);
+      };
+      const checkDropped = (): void => {
+        if (forwarded || !onDrop) return;
+        dropped = true;
+        onDrop(e, i, 1);
+      };
+
+      let result: void | Promise<void>;
+      try {
+        result = mw(e, next);
+      } catch (err) {
+        if (syncPhase && !onError) throw err;
+        report(err, e);
+        return;
+      }
+
+      if (isPromiseLike(result)) {
+        settle(
+          result,
+          e,
+          () => {
+            abandoned = true;
+          },
+          checkDropped,
+        );
+      } else {
+        checkDropped();
       }
     };
 
-    next(entry);
+    dispatch(0, entry);
+    syncPhase = false;
+
+    if (outstanding === 0) return;
+    return new Promise<void>((resolve) => {
+      resolveDone = resolve;
+    });
+  }
+
+  if (options.after) track(options.after);
+
+  const pipeline = ((entry: LogEntry<TMeta>): void => {
+    if (ordered && tail) {
+      track(tail.then(() => run(entry, false)));
+      return;
+    }
+    const work = run(entry, true);
+    if (work) track(work);
+  }) as Pipeline<TMeta>;
+
+  pipeline.pending = () =>
+    inFlight.size > 0 ? Promise.all(inFlight).then(noop) : undefined;
+
+  pipeline.drain = async () => {
+    for (let p = pipeline.pending(); p; p = pipeline.pending()) {
+      await p;
+    }
   };
+
+  return pipeline;
 }
 
 /**
- * Fan out a log entry to all transports, respecting per-transport level filters.
+ * Wrap a transport that declares `middleware` so each entry runs through
+ * that chain — on a copy — before reaching `write()`. Write failures go to
+ * `onWriteError` (swallowed without it). Transports without middleware
+ * are returned as-is. Wrapping transports (queue, batch…) must pass on
+ * their inner transport's `middleware`: the logger then runs the chain
+ * before the wrapper sees an entry, and the wrapper's direct calls to the
+ * inner `write()` skip it.
+ */
+export function chainTransport<TMeta = Record<string, unknown>>(
+  transport: Transport<TMeta>,
+  options: PipelineOptions<TMeta> = {},
+  onWriteError?: (
+    error: unknown,
+    transport: Transport<TMeta>,
+    entry: LogEntry<TMeta>,
+  ) => void,
+): Transport<TMeta> {
+  if (!transport.middleware?.length) return transport;
+
+  const pipeline = composeMiddleware(
+    transport.middleware,
+    (entry) => {
+      try {
+        const result = transport.write(entry);
+        if (result && typeof (result as Promise<void>).catch === "function") {
+          (result as Promise<void>).catch((err) =>
+            onWriteError?.(err, transport, entry),
+          );
+        }
+      } catch (err) {
+        onWriteError?.(err, transport, entry);
+      }
+    },
+    options,
+  );
+
+  return {
+    name: transport.name,
+    level: transport.level,
+    filter: transport.filter?.bind(transport),
+    get queued() {
+      return transport.queued;
+    },
+    write(entry) {
+      pipeline(cloneEntry(entry));
+    },
+    async flush() {
+      await pipeline.drain();
+      await transport.flush?.();
+    },
+    async close() {
+      await pipeline.drain();
+      await transport.close?.();
+    },
+  };
+}
+
+/**
+ * Fan out a log entry to all transports, respecting per-transport level
+ * filters and `filter()` predicates (a throwing predicate counts as a failure).
+ * Every transport shares `entry` except `mutable` ones, which get a copy.
  * All transports run concurrently and fire-and-forget for non-blocking logging.
+ * Sync throws and rejections go to `onError` when given, otherwise they are swallowed.
+ * `onSettled` receives each write's latency once it completes or fails.
  */
 export function fanOutToTransports<TMeta = Record<string, unknown>>(
   entry: LogEntry<TMeta>,
   transports: Transport<TMeta>[],
   loggerLevel: number,
+  onError?: (
+    error: unknown,
+    transport: Transport<TMeta>,
+    entry: LogEntry<TMeta>,
+  ) => void,
+  onSettled?: (
+    transport: Transport<TMeta>,
+    latencyMs: number,
+    failed: boolean,
+  ) => void,
 ): void {
   for (const t of transports) {
     const tLevel = t.level ? resolveLevel(t.level) : loggerLevel;
 
     if (!shouldLog(entry.level, tLevel)) continue;
 
+    if (t.filter) {
+      let accepted: boolean;
+      try {
+        accepted = t.filter(entry);
+      } catch (err) {
+        onError?.(err, t, entry);
+        continue;
+      }
+      if (!accepted) continue;
+    }
+
+    const start = onSettled ? hrNow() : 0;
     try {
-      const result = t.write(entry);
+      const result = t.write(t.mutable ? cloneEntry(entry) : entry);
       if (result && typeof (result as Promise<void>).catch === "function") {
-        (result as Promise<void>).catch(() => {
-          /* Swallow transport errors to avoid crashing the host app */
-        });
+        (result as Promise<void>).then(
+          () => onSettled?.(t, hrNow() - start, false),
+          (err) => {
+            /* Never crash the host app — only report when asked to */
+            onSettled?.(t, hrNow() - start, true);
+            onError?.(err, t, entry);
+          },
+        );
+      } else {
+        onSettled?.(t, hrNow() - start, false);
       }
-    } catch {
-      /* Sync transport errors swallowed */
+    } catch (err) {
+      onSettled?.(t, hrNow() - start, true);
+      onError?.(err, t, entry);
     }
   }
 }
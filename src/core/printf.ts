@@ -0,0 +1,198 @@
+/**
+ * @module voltlog-io
+ * @description printf-style messages — `logger.info('connected %s in %dms', id, ms)`.
+ * @universal Works in all environments (no dependency on Node's `util`).
+ *
+ * Enabled with `printf: true`. Supported specifiers match `util.format`:
+ * `%s` string, `%d` number, `%i` integer, `%f` float, `%j` JSON,
+ * `%o`/`%O` object inspection and `%%` for a literal percent sign.
+ * Specifiers without a matching argument are left as written.
+ *
+ * Arguments after the ones the specifiers consume keep their usual meaning —
+ * a plain object is meta, a trailing `Error` is the error — and anything
+ * else is appended to `meta.args`.
+ *
+ * @example
+ * ```ts
+ * const logger = createLogger({ printf: true, transports: [consoleTransport()] });
+ *
+ * logger.info('connected %s in %dms', 'CP-101', 42, { action: 'Boot' }, 'extra');
+ * // → message: 'connected CP-101 in 42ms'
+ * //   meta: { action: 'Boot', args: ['extra'] }
+ * ```
+ */
+
+const SPECIFIER = /%([sdifjoO%])/g;
+
+/** Arguments of a printf-style call, split by role */
+export interface PrintfArgs {
+  /** Consumed by specifiers, in order */
+  values: unknown[];
+  /** Plain object (or lazy meta thunk) following the values */
+  meta?: unknown;
+  /** Trailing `Error` */
+  error?: Error;
+  /** Everything else — goes to `meta.args` */
+  rest: unknown[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Number of specifiers in `format` that consume an argument */
+function countSpecifiers(format: string): number {
+  let count = 0;
+  for (const match of format.matchAll(SPECIFIER)) {
+    if (match[1] !== "%") count++;
+  }
+  return count;
+}
+
+/** Split `args` into specifier values, meta, error and leftovers */
+export function splitPrintfArgs(
+  format: string,
+  args: readonly unknown[],
+): PrintfArgs {
+  const used = format.includes("%") ? countSpecifiers(format) : 0;
+  const values = args.slice(0, used);
+  const rest = args.slice(used);
+  const result: PrintfArgs = { values, rest };
+
+  const first = rest[0];
+  if (typeof first === "function" || isPlainObject(first)) {
+    result.meta = rest.shift();
+  }
+  const last = rest[rest.length - 1];
+  if (last instanceof Error) {
+    result.error = last;
+    rest.pop();
+  }
+  return result;
+}
+
+/** Append leftover arguments to `meta.args` */
+export function withExtraArgs<TMeta>(
+  meta: Partial<TMeta> | undefined,
+  extra: readonly unknown[],
+): Partial<TMeta> {
+  const existing = (meta as Record<string, unknown> | undefined)?.args;
+  const args =
+    existing === undefined
+      ? [...extra]
+      : [...(Array.isArray(existing) ? existing : [existing]), ...extra];
+  return { ...meta, args } as unknown as Partial<TMeta>;
+}
+
+// ─── Inspection ──────────────────────────────────────────────────
+
+function inspect(value: unknown, depth: number, seen: unknown[]): string {
+  switch (typeof value) {
+    case "string":
+      return `'${value}'`;
+    case "bigint":
+      return `${value}n`;
+    case "function":
+      return `[Function: ${value.name || "(anonymous)"}]`;
+    case "object":
+      break;
+    default:
+      return String(value);
+  }
+  if (value === null) return "null";
+  if (value instanceof Error)
+    return value.stack ?? `${value.name}: ${value.message}`;
+  if (value instanceof Date) return value.toISOString();
+  if (seen.includes(value)) return "[Circular]";
+
+  const nested = [...seen, value];
+  const item = (v: unknown) => inspect(v, depth - 1, nested);
+
+  if (Array.isArray(value)) {
+    if (depth < 0) return "[Array]";
+    return value.length === 0 ? "[]" : `[ ${value.map(item).join(", ")} ]`;
+  }
+  if (value instanceof Map) {
+    if (depth < 0) return "[Map]";
+    const pairs = [...value].map(([k, v]) => `${item(k)} => ${item(v)}`);
+    return `Map(${value.size}) {${pairs.length ? ` ${pairs.join(", ")} ` : ""}}`;
+  }
+  if (value instanceof Set) {
+    if (depth < 0) return "[Set]";
+    const items = [...value].map(item);
+    return `Set(${value.size}) {${items.length ? ` ${items.join(", ")} ` : ""}}`;
+  }
+
+  const name = (value as object).constructor?.name;
+  const prefix = name && name !== "Object" ? `${name} ` : "";
+  if (depth < 0) return `[${name || "Object"}]`;
+  const fields = Object.entries(value).map(([k, v]) => {
+    const key = /^[A-Za-z_$][\w$]*$/.test(k) ? k : `'${k}'`;
+    return `${key}: ${item(v)}`;
+  });
+  return fields.length === 0
+    ? `${prefix}{}`
+    : `${prefix}{ ${fields.join(", ")} }`;
+}
+
+function toJson(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? "undefined";
+  } catch (err) {
+    return err instanceof TypeError && /circular/i.test(err.message)
+      ? "[Circular]"
+      : "[Unserializable]";
+  }
+}
+
+function formatValue(specifier: string, value: unknown): string {
+  switch (specifier) {
+    case "s":
+      if (typeof value === "string") return value;
+      if (typeof value === "bigint") return `${value}n`;
+      if (
+        typeof value === "object" &&
+        value !== null &&
+        !(value instanceof Error) &&
+        (Array.isArray(value) || value.toString === Object.prototype.toString)
+      ) {
+        return inspect(value, 1, []);
+      }
+      return String(value);
+    case "d":
+      if (typeof value === "bigint") return `${value}n`;
+      if (typeof value === "symbol") return "NaN";
+      return String(Number(value));
+    case "i":
+      if (typeof value === "bigint") return `${value}n`;
+      if (typeof value === "symbol") return "NaN";
+      return String(Number.parseInt(String(value), 10));
+    case "f":
+      if (typeof value === "symbol") return "NaN";
+      return String(Number.parseFloat(String(value)));
+    case "j":
+      return toJson(value);
+    case "o":
+      return inspect(value, 4, []);
+    default:
+      return inspect(value, 2, []);
+  }
+}
+
+/**
+ * Fill printf-style specifiers in `format` from `values`, in order.
+ */
+export function formatPrintf(
+  format: string,
+  values: readonly unknown[],
+): string {
+  if (!format.includes("%")) return format;
+  let i = 0;
+  return format.replace(SPECIFIER, (token, specifier: string) => {
+    if (specifier === "%") return "%";
+    if (i >= values.length) return token;
+    return formatValue(specifier, values[i++]);
+  });
+}
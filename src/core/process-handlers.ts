@@ -0,0 +1,139 @@
+/**
+ * @module voltlog-io
+ * @description Process lifecycle hooks — crash capture and graceful shutdown.
+ *
+ * Node.js/Bun/Deno: `uncaughtException` and `unhandledRejection` are logged
+ * as FATAL, then the logger is closed (bounded by `shutdownTimeoutMs`) and the
+ * process exits with code 1. SIGTERM/SIGINT close the logger and re-raise the
+ * signal; `beforeExit` closes it once. Browsers: `error` and
+ * `unhandledrejection` window events are logged as FATAL.
+ *
+ * @example
+ * ```ts
+ * const logger = createLogger({ transports: [lokiTransport({ host })] });
+ * const uninstall = logger.installProcessHandlers({ shutdownTimeoutMs: 3000 });
+ * ```
+ */
+
+import type { Logger, ProcessHandlerOptions } from "./types.js";
+
+type Listener = (event: unknown) => void;
+
+interface EventTarget {
+  add(event: string, listener: Listener): void;
+  remove(event: string, listener: Listener): void;
+}
+
+/** The slice of `window` used here — avoids depending on the DOM lib */
+interface WindowLike {
+  addEventListener(event: string, listener: Listener): void;
+  removeEventListener(event: string, listener: Listener): void;
+}
+
+function toError(value: unknown): Error {
+  return value instanceof Error ? value : new Error(String(value));
+}
+
+/** Resolve after `close()` settles or the deadline passes, whichever is first */
+function closeWithDeadline<TMeta>(
+  logger: Logger<TMeta>,
+  timeoutMs: number,
+): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, timeoutMs);
+  });
+  return Promise.race([logger.close().catch(() => {}), deadline]).finally(() =>
+    clearTimeout(timer),
+  );
+}
+
+function nodeTarget(): EventTarget | undefined {
+  if (typeof process === "undefined" || typeof process.on !== "function") {
+    return undefined;
+  }
+  return {
+    add: (event, listener) => process.on(event, listener),
+    remove: (event, listener) => process.off(event, listener),
+  };
+}
+
+function browserTarget(): EventTarget | undefined {
+  const win = (globalThis as { window?: WindowLike }).window;
+  if (!win || typeof win.addEventListener !== "function") return undefined;
+  return {
+    add: (event, listener) => win.addEventListener(event, listener),
+    remove: (event, listener) => win.removeEventListener(event, listener),
+  };
+}
+
+/**
+ * Install crash and shutdown handlers for `logger`.
+ * Returns a function that removes every handler it added.
+ */
+export function installProcessHandlers<TMeta>(
+  logger: Logger<TMeta>,
+  options: ProcessHandlerOptions = {},
+): () => void {
+  const timeoutMs = options.shutdownTimeoutMs ?? 5000;
+  const exitOnCrash = options.exitOnCrash ?? true;
+  const signals = options.signals ?? ["SIGTERM", "SIGINT"];
+
+  const installed: Array<[EventTarget, string, Listener]> = [];
+  const on = (target: EventTarget, event: string, listener: Listener) => {
+    target.add(event, listener);
+    installed.push([target, event, listener]);
+  };
+  const uninstall = () => {
+    for (const [target, event, listener] of installed.splice(0)) {
+      target.remove(event, listener);
+    }
+  };
+
+  const node = nodeTarget();
+  if (node) {
+    let shuttingDown = false;
+    const crash = (message: string) => (reason: unknown) => {
+      logger.fatal(message, toError(reason));
+      if (!exitOnCrash || shuttingDown) return;
+      shuttingDown = true;
+      closeWithDeadline(logger, timeoutMs).then(() => process.exit(1));
+    };
+
+    on(node, "uncaughtException", crash("Uncaught exception"));
+    on(node, "unhandledRejection", crash("Unhandled promise rejection"));
+
+    for (const signal of signals) {
+      on(node, signal, () => {
+        if (shuttingDown) return;
+        shuttingDown = true;
+        closeWithDeadline(logger, timeoutMs).then(() => {
+          // Re-raise so the default handler (or the next one) runs
+          uninstall();
+          process.kill(process.pid, signal);
+        });
+      });
+    }
+
+    // Fires again whenever the close() work empties the loop, so only once
+    on(node, "beforeExit", () => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      closeWithDeadline(logger, timeoutMs);
+    });
+    return uninstall;
+  }
+
+  const browser = browserTarget();
+  if (browser) {
+    on(browser, "error", (event) => {
+      const { error, message } = event as { error?: unknown; message?: string };
+      logger.fatal("Uncaught exception", toError(error ?? message));
+    });
+    on(browser, "unhandledrejection", (event) => {
+      const { reason } = event as { reason?: unknown };
+      logger.fatal("Unhandled promise rejection", toError(reason));
+    });
+  }
+  return uninstall;
+}
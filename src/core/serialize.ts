@@ -0,0 +1,200 @@
+/**
+ * @module voltlog-io
+ * @description Safe JSON serialization shared by every transport.
+ * @universal Works in all environments.
+ *
+ * `JSON.stringify` throws on cycles and BigInt and turns Maps, Sets and
+ * Errors into `{}`. `safeStringify` never throws:
+ * - cycles become `"[Circular]"`
+ * - BigInt becomes a decimal string, symbols their description
+ * - Map becomes an object (or `[key, value]` pairs when keys aren't strings
+ *   or numbers), Set an array
+ * - typed arrays, `ArrayBuffer` and `Buffer` become arrays of numbers
+ * - Date becomes an ISO string, Error a `LogError` (cause chain included)
+ * - a getter that throws becomes `"[Getter threw: <message>]"`
+ *
+ * Depth, array-length and string-length limits keep a single entry from
+ * producing megabytes of output. Every cut is marked with `[Truncated: ...]`.
+ *
+ * @example
+ * ```ts
+ * const req = { url: '/boot', headers: { 'x-id': 'abc' } };
+ * req.self = req;
+ * safeStringify({ req, energy: 12345678901234567890n });
+ * // → '{"req":{"url":"/boot","headers":{"x-id":"abc"},"self":"[Circular]"},"energy":"12345678901234567890"}'
+ * ```
+ */
+
+import { serializeError } from "./errors.js";
+import type { SafeStringifyOptions, SerializeLimits } from "./types.js";
+
+const DEFAULT_LIMITS: Required<SerializeLimits> = {
+  maxDepth: 10,
+  maxArrayLength: 1000,
+  maxStringLength: 100_000,
+};
+
+const CIRCULAR = "[Circular]";
+const MAX_DEPTH = "[Truncated: max depth]";
+
+function describe(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** A JSON-safe copy of `root` within `limits` */
+function toJsonSafe(root: unknown, limits: Required<SerializeLimits>): unknown {
+  const ancestors: object[] = [];
+
+  /** Returns `undefined` for values JSON omits */
+  function convert(value: unknown, depth: number, key: string): unknown {
+    switch (typeof value) {
+      case "string":
+        return truncate(value);
+      case "number":
+      case "boolean":
+        return value;
+      case "bigint":
+      case "symbol":
+        return value.toString();
+      case "undefined":
+      case "function":
+        return undefined;
+    }
+    if (value === null) return null;
+
+    const obj = value as object;
+    if (ancestors.includes(obj)) return CIRCULAR;
+    if (depth >= limits.maxDepth) return MAX_DEPTH;
+
+    ancestors.push(obj);
+    try {
+      return object(obj, depth + 1, key);
+    } finally {
+      ancestors.pop();
+    }
+  }
+
+  function truncate(value: string): string {
+    const max = limits.maxStringLength;
+    if (value.length <= max) return value;
+    return `${value.slice(0, max)}...[Truncated: ${value.length - max} more chars]`;
+  }
+
+  function object(obj: object, depth: number, key: string): unknown {
+    if (obj instanceof Error) return fields(serializeError(obj), depth);
+    if (obj instanceof Date) {
+      return Number.isNaN(obj.getTime()) ? null : obj.toISOString();
+    }
+    if (obj instanceof Map) return map(obj, depth);
+    if (obj instanceof Set) return items([...obj], depth);
+    if (obj instanceof ArrayBuffer) return items(new Uint8Array(obj), depth);
+    if (ArrayBuffer.isView(obj)) {
+      const view =
+        obj instanceof DataView
+          ? new Uint8Array(obj.buffer, obj.byteOffset, obj.byteLength)
+          : (obj as unknown as ArrayLike<unknown>);
+      return items(view, depth);
+    }
+    if (Array.isArray(obj)) return items(obj, depth);
+
+    const toJSON = (obj as { toJSON?: unknown }).toJSON;
+    if (typeof toJSON === "function") {
+      let json: unknown;
+      try {
+        json = toJSON.call(obj, key);
+      } catch (err) {
+        return `[toJSON threw: ${describe(err)}]`;
+      }
+      // `toJSON` stands in for the object, so it keeps the object's depth
+      return json === obj ? fields(obj, depth) : convert(json, depth - 1, key);
+    }
+    return fields(obj, depth);
+  }
+
+  function fields(obj: object, depth: number): unknown {
+    let keys: string[];
+    try {
+      keys = Object.keys(obj);
+    } catch (err) {
+      return `[Keys threw: ${describe(err)}]`;
+    }
+    const result: Record<string, unknown> = {};
+    for (const k of keys) {
+      let raw: unknown;
+      try {
+        raw = (obj as Record<string, unknown>)[k];
+      } catch (err) {
+        result[k] = `[Getter threw: ${describe(err)}]`;
+        continue;
+      }
+      const value = convert(raw, depth, k);
+      if (value !== undefined) result[k] = value;
+    }
+    return result;
+  }
+
+  function items(list: ArrayLike<unknown>, depth: number): unknown[] {
+    const max = limits.maxArrayLength;
+    const count = Math.min(list.length, max);
+    const result: unknown[] = [];
+    for (let i = 0; i < count; i++) {
+      let raw: unknown;
+      try {
+        raw = list[i];
+      } catch (err) {
+        result.push(`[Getter threw: ${describe(err)}]`);
+        continue;
+      }
+      // JSON writes omitted array items as null
+      result.push(convert(raw, depth, String(i)) ?? null);
+    }
+    if (list.length > max) {
+      result.push(`[Truncated: ${list.length - max} more items]`);
+    }
+    return result;
+  }
+
+  function map(source: Map<unknown, unknown>, depth: number): unknown {
+    const entries = [...source].slice(0, limits.maxArrayLength);
+    const more = source.size - entries.length;
+    const simpleKeys = entries.every(
+      ([k]) => typeof k === "string" || typeof k === "number",
+    );
+
+    if (simpleKeys) {
+      const result: Record<string, unknown> = {};
+      for (const [k, v] of entries) {
+        const value = convert(v, depth, String(k));
+        if (value !== undefined) result[String(k)] = value;
+      }
+      if (more > 0) result["[Truncated]"] = `${more} more entries`;
+      return result;
+    }
+
+    const pairs: unknown[] = entries.map(([k, v]) => [
+      convert(k, depth, "") ?? null,
+      convert(v, depth, "") ?? null,
+    ]);
+    if (more > 0) pairs.push(`[Truncated: ${more} more entries]`);
+    return pairs;
+  }
+
+  return convert(root, 0, "");
+}
+
+/**
+ * `JSON.stringify` that never throws. See the module docs for how
+ * non-JSON values are represented and how limits are marked.
+ */
+export function safeStringify(
+  value: unknown,
+  options: SafeStringifyOptions = {},
+): string {
+  const { space, ...limits } = options;
+  try {
+    const safe = toJsonSafe(value, { ...DEFAULT_LIMITS, ...limits });
+    return JSON.stringify(safe, null, space) ?? "null";
+  } catch (err) {
+    return JSON.stringify(`[Unserializable: ${describe(err)}]`);
+  }
+}
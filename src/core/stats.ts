@@ -0,0 +1,175 @@
+/**
+ * @module voltlog-io
+ * @description Logger self-observability — counters behind `logger.stats()`.
+ *
+ * @example Prometheus scrape endpoint
+ * ```ts
+ * import { formatStatsPrometheus } from 'voltlog-io';
+ *
+ * app.get('/metrics/logger', (_req, res) => {
+ *   res.type('text/plain').send(formatStatsPrometheus(logger.stats()));
+ * });
+ * ```
+ */
+
+import type { LoggerStats, Transport } from "./types.js";
+
+interface TransportCounters {
+  writes: number;
+  failures: number;
+  latencyTotalMs: number;
+  settled: number;
+}
+
+/** Mutable counters fed by the pipeline and fan-out hooks */
+export interface StatsCollector {
+  emitted(levelName: string): void;
+  dropped(middleware: string, delta: number): void;
+  written(transport: string, latencyMs: number, failed: boolean): void;
+  failed(transport: string): void;
+  snapshot(
+    transports: readonly Pick<Transport, "name" | "queued">[],
+  ): LoggerStats;
+}
+
+export function createStatsCollector(): StatsCollector {
+  const emitted: Record<string, number> = {};
+  const dropped: Record<string, number> = {};
+  let droppedTotal = 0;
+  const transports = new Map<string, TransportCounters>();
+
+  const countersFor = (name: string): TransportCounters => {
+    let counters = transports.get(name);
+    if (!counters) {
+      counters = { writes: 0, failures: 0, latencyTotalMs: 0, settled: 0 };
+      transports.set(name, counters);
+    }
+    return counters;
+  };
+
+  return {
+    emitted(levelName) {
+      emitted[levelName] = (emitted[levelName] ?? 0) + 1;
+    },
+    dropped(middleware, delta) {
+      dropped[middleware] = (dropped[middleware] ?? 0) + delta;
+      droppedTotal += delta;
+    },
+    written(transport, latencyMs, failed) {
+      const counters = countersFor(transport);
+      counters.writes++;
+      counters.settled++;
+      counters.latencyTotalMs += latencyMs;
+      if (failed) counters.failures++;
+    },
+    failed(transport) {
+      countersFor(transport).failures++;
+    },
+    snapshot(active) {
+      const result: LoggerStats["transports"] = {};
+      const names = new Set([
+        ...transports.keys(),
+        ...active.map((t) => t.name),
+      ]);
+      for (const name of names) {
+        const counters = countersFor(name);
+        const transport = active.find((t) => t.name === name);
+        result[name] = {
+          writes: counters.writes,
+          failures: counters.failures,
+          queued: transport?.queued ?? 0,
+          avgLatencyMs:
+            counters.settled > 0
+              ? Math.round(
+                  (counters.latencyTotalMs / counters.settled) * 1000,
+                ) / 1000
+              : 0,
+        };
+      }
+      return {
+        emitted: { ...emitted },
+        dropped: { total: droppedTotal, byMiddleware: { ...dropped } },
+        transports: result,
+      };
+    },
+  };
+}
+
+/** Escape a Prometheus label value */
+function label(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Render a stats snapshot in the Prometheus text exposition format.
+ */
+export function formatStatsPrometheus(
+  stats: LoggerStats,
+  prefix = "voltlog",
+): string {
+  const lines: string[] = [];
+  const metric = (
+    name: string,
+    type: "counter" | "gauge",
+    help: string,
+    samples: Array<[labels: string, value: number]>,
+  ) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} ${type}`);
+    for (const [labels, value] of samples) {
+      lines.push(`${prefix}_${name}${labels ? `{${labels}}` : ""} ${value}`);
+    }
+  };
+  const transports = Object.entries(stats.transports);
+
+  metric(
+    "entries_emitted_total",
+    "counter",
+    "Entries that passed the middleware pipeline",
+    Object.entries(stats.emitted).map(([level, n]) => [
+      `level="${label(level)}"`,
+      n,
+    ]),
+  );
+  metric(
+    "entries_dropped_total",
+    "counter",
+    "Entries dropped by middleware",
+    Object.entries(stats.dropped.byMiddleware).map(([mw, n]) => [
+      `middleware="${label(mw)}"`,
+      n,
+    ]),
+  );
+  metric(
+    "transport_writes_total",
+    "counter",
+    "Writes handed to each transport",
+    transports.map(([name, t]) => [`transport="${label(name)}"`, t.writes]),
+  );
+  metric(
+    "transport_failures_total",
+    "counter",
+    "Failed transport writes",
+    transports.map(([name, t]) => [`transport="${label(name)}"`, t.failures]),
+  );
+  metric(
+    "transport_queued",
+    "gauge",
+    "Entries waiting in each transport's queue",
+    transports.map(([name, t]) => [`transport="${label(name)}"`, t.queued]),
+  );
+  metric(
+    "transport_write_latency_avg_ms",
+    "gauge",
+    "Mean transport write latency in milliseconds",
+    transports.map(([name, t]) => [
+      `transport="${label(name)}"`,
+      t.avgLatencyMs,
+    ]),
+  );
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,78 @@
+/**
+ * @module voltlog-io
+ * @description Message templates — `'Charge point {chargePointId} rejected {action}'`.
+ *
+ * Placeholders are filled from meta, then bound context. The entry keeps the
+ * rendered `message` alongside the original `messageTemplate` and a short
+ * `templateHash`, so "CP-101 rejected" and "CP-202 rejected" can be grouped
+ * downstream. `{{` and `}}` produce literal braces; placeholders without a
+ * value are left as written.
+ *
+ * @example
+ * ```ts
+ * logger.warn('Charge point {chargePointId} rejected {action}', {
+ *   chargePointId: 'CP-101',
+ *   action: 'RemoteStartTransaction',
+ * });
+ * // → message: 'Charge point CP-101 rejected RemoteStartTransaction'
+ * //   messageTemplate: 'Charge point {chargePointId} rejected {action}'
+ * //   templateHash: 'eb221c00'
+ * ```
+ */
+
+import { safeStringify } from "./serialize.js";
+import type { LogEntry } from "./types.js";
+
+const TOKEN = /\{\{|\}\}|\{([A-Za-z_$][\w$]*)\}/g;
+const NAMED = /\{[A-Za-z_$][\w$]*\}/;
+
+/** Whether `message` contains at least one `{name}` placeholder */
+export function isMessageTemplate(message: string): boolean {
+  return message.includes("{") && NAMED.test(message);
+}
+
+/** Text for a substituted value — strings as-is, objects as JSON */
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === null || typeof value !== "object") return String(value);
+  return safeStringify(value);
+}
+
+/**
+ * Fill `{name}` placeholders in `template` from `lookup`.
+ * `highlight` wraps each substituted value (e.g. in ANSI colors).
+ */
+export function renderTemplate(
+  template: string,
+  lookup: (name: string) => unknown,
+  highlight?: (text: string) => string,
+): string {
+  return template.replace(TOKEN, (token, name?: string) => {
+    if (name === undefined) return token[0] as string;
+    const value = lookup(name);
+    if (value === undefined) return token;
+    const text = formatValue(value);
+    return highlight ? highlight(text) : text;
+  });
+}
+
+/** Stable 32-bit FNV-1a hash of a template, as 8 hex characters */
+export function hashTemplate(template: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < template.length; i++) {
+    hash ^= template.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Placeholder values for an entry: meta first, then bound context */
+export function templateValues(
+  entry: Pick<LogEntry<unknown>, "meta" | "context">,
+): (name: string) => unknown {
+  const meta = entry.meta as Record<string, unknown> | undefined;
+  return (name) => {
+    const value = meta && typeof meta === "object" ? meta[name] : undefined;
+    return value !== undefined ? value : entry.context?.[name];
+  };
+}
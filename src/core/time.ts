@@ -0,0 +1,128 @@
+/**
+ * @module voltlog-io
+ * @description High-resolution timestamps and timestamp formats.
+ * @universal Works in all environments.
+ *
+ * With `hrTimestamps: true` each entry gets `timestampNs` — nanoseconds since
+ * the epoch as a decimal string. Readings come from `process.hrtime.bigint()`
+ * (or `performance.now()` in browsers), anchored to `Date.now()`; the anchor
+ * is reset if the two drift more than a second apart (e.g. after the system
+ * clock is stepped). Entries logged within the same millisecond keep their
+ * order, which `Date.now()` alone can't show.
+ *
+ * Transports that print timestamps accept a `timestampFormat`:
+ * - `'epoch-ms'` — `1705314600123` (default for JSON transports)
+ * - `'iso'` — `2024-01-15T11:30:00.123+01:00`, local timezone offset
+ * - `'rfc3339nano'` — `2024-01-15T10:30:00.123456789Z`
+ *
+ * @example
+ * ```ts
+ * const logger = createLogger({
+ *   hrTimestamps: true,
+ *   transports: [jsonStreamTransport({ stream: process.stdout, timestampFormat: 'rfc3339nano' })],
+ * });
+ * ```
+ */
+
+import type { LogEntry, TimestampFormat } from "./types.js";
+
+/** Nanoseconds from an arbitrary origin */
+type HrClock = () => bigint;
+
+const NS_PER_MS = 1_000_000n;
+const MAX_DRIFT_MS = 1000;
+
+let clock: HrClock | undefined;
+let offset: bigint | undefined;
+
+function createHrClock(): HrClock {
+  if (
+    typeof process !== "undefined" &&
+    typeof process.hrtime?.bigint === "function"
+  ) {
+    return () => process.hrtime.bigint();
+  }
+  if (
+    typeof performance !== "undefined" &&
+    typeof performance.now === "function"
+  ) {
+    return () => BigInt(Math.round(performance.now() * 1e6));
+  }
+  return () => BigInt(Date.now()) * NS_PER_MS;
+}
+
+/** Current time in nanoseconds since the Unix epoch */
+export function hrEpochNs(): bigint {
+  clock ??= createHrClock();
+  const reading = clock();
+  const wallMs = Date.now();
+  if (
+    offset === undefined ||
+    Math.abs(Number((reading + offset) / NS_PER_MS) - wallMs) > MAX_DRIFT_MS
+  ) {
+    offset = BigInt(wallMs) * NS_PER_MS - reading;
+  }
+  return reading + offset;
+}
+
+/** Entry time in nanoseconds — `timestampNs` when set, else from `timestamp` */
+export function entryEpochNs(
+  entry: Pick<LogEntry<unknown>, "timestamp" | "timestampNs">,
+): bigint {
+  if (entry.timestampNs !== undefined) return BigInt(entry.timestampNs);
+  return BigInt(Math.trunc(entry.timestamp)) * NS_PER_MS;
+}
+
+const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+
+/** ISO-8601 in the local timezone, with an explicit offset */
+function toLocalIso(ms: number): string {
+  const date = new Date(ms);
+  const offsetMin = -date.getTimezoneOffset();
+  const sign = offsetMin >= 0 ? "+" : "-";
+  const abs = Math.abs(offsetMin);
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    `.${pad(date.getMilliseconds(), 3)}` +
+    `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`
+  );
+}
+
+/** RFC 3339 in UTC with up to nine fractional digits (Go's RFC3339Nano) */
+function toRfc3339Nano(ns: bigint): string {
+  const seconds = ns / 1_000_000_000n;
+  const fraction = (ns % 1_000_000_000n)
+    .toString()
+    .padStart(9, "0")
+    .replace(/0+$/, "");
+  const base = new Date(Number(seconds) * 1000).toISOString().slice(0, 19);
+  return `${base}${fraction ? `.${fraction}` : ""}Z`;
+}
+
+/** Format an entry's time; `epoch-ms` returns the number unchanged */
+export function formatTimestamp(
+  entry: Pick<LogEntry<unknown>, "timestamp" | "timestampNs">,
+  format: TimestampFormat,
+): number | string {
+  switch (format) {
+    case "iso":
+      return toLocalIso(entry.timestamp);
+    case "rfc3339nano":
+      return toRfc3339Nano(entryEpochNs(entry));
+    default:
+      return entry.timestamp;
+  }
+}
+
+/**
+ * The entry with `timestamp` in `format`, for serializing.
+ * Returns the entry itself for `epoch-ms` or no format.
+ */
+export function withTimestampFormat<T extends LogEntry<unknown>>(
+  entry: T,
+  format: TimestampFormat | undefined,
+): T | (Omit<T, "timestamp"> & { timestamp: number | string }) {
+  if (!format || format === "epoch-ms") return entry;
+  return { ...entry, timestamp: formatTimestamp(entry, format) };
+}
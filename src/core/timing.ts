@@ -0,0 +1,129 @@
+/**
+ * @module voltlog-io
+ * @description Timing helpers behind `logger.startTimer()` and `logger.time()`.
+ * Durations come from `performance.now()` when available, else `Date.now()`.
+ *
+ * @example
+ * ```ts
+ * const done = logger.startTimer();
+ * await handleBoot(payload);
+ * done.info('BootNotification handled', { chargePointId: 'CP-101' });
+ * // → meta: { chargePointId: 'CP-101', durationMs: 12.481 }
+ *
+ * const rows = await logger.time('db.fetchTariffs', () => db.tariffs.findMany());
+ * ```
+ */
+
+import {
+  LogLevel,
+  type LogLevelName,
+  type LogMessage,
+  type LogTimer,
+} from "./types.js";
+
+/** `_log` signature shared by root and child loggers */
+export type LogFn<TMeta> = (
+  level: number,
+  levelName: string,
+  message: LogMessage<TMeta>,
+  args: readonly unknown[],
+  fields?: Record<string, unknown>,
+) => void;
+
+const TIMER_LEVELS: Exclude<LogLevelName, "SILENT">[] = [
+  "TRACE",
+  "DEBUG",
+  "INFO",
+  "WARN",
+  "ERROR",
+  "FATAL",
+];
+
+/**
+ * Milliseconds from a monotonic high-resolution clock when available.
+ * Only meaningful as a difference between two readings.
+ */
+export function hrNow(): number {
+  return typeof performance !== "undefined" &&
+    typeof performance.now === "function"
+    ? performance.now()
+    : Date.now();
+}
+
+/** Round to microseconds — enough precision without float noise */
+function roundDuration(ms: number): number {
+  return Math.round(ms * 1000) / 1000;
+}
+
+/**
+ * Start a timer whose level methods log through `log`, stamping
+ * `durationMs` since the timer was created.
+ */
+export function createTimer<TMeta>(log: LogFn<TMeta>): LogTimer<TMeta> {
+  const start = hrNow();
+  const elapsed = () => roundDuration(hrNow() - start);
+
+  const timer = { elapsed } as LogTimer<TMeta>;
+  for (const name of TIMER_LEVELS) {
+    const method = name.toLowerCase() as Lowercase<typeof name>;
+    // `durationMs` is added once meta is resolved, so lazy meta stays lazy
+    timer[method] = ((message: LogMessage<TMeta>, ...args: unknown[]) =>
+      log(LogLevel[name], name, message, args, {
+        durationMs: elapsed(),
+      })) as LogTimer<TMeta>["error"];
+  }
+  return timer;
+}
+
+/**
+ * Run `fn`, then log `label` at INFO with `durationMs` — or
+ * `"<label> failed"` at ERROR with the error if it throws or rejects.
+ * The return value (or rejection) is passed through unchanged.
+ */
+export function timeCall<T, TMeta>(
+  log: LogFn<TMeta>,
+  label: string,
+  fn: () => T,
+  meta?: Partial<TMeta>,
+): T {
+  const timer = createTimer(log);
+  const succeed = () => timer.info(label, meta);
+  const fail = (err: unknown) =>
+    timer.error(
+      `${label} failed`,
+      meta ?? {},
+      err instanceof Error ? err : new Error(String(err)),
+    );
+
+  let result: T;
+  try {
+    result = fn();
+  } catch (err) {
+    fail(err);
+    throw err;
+  }
+
+  if (isPromiseLike(result)) {
+    return Promise.resolve(result).then(
+      (value) => {
+        succeed();
+        return value;
+      },
+      (err: unknown) => {
+        fail(err);
+        throw err;
+      },
+    ) as T;
+  }
+
+  succeed();
+  return result;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
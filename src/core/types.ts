@@ -20,40 +20,69 @@ export type LogLevelName = keyof typeof LogLevel;
 /** Numeric log level value */
 export type LogLevelValue = (typeof LogLevel)[LogLevelName];
 
-/** Map from level name (lowercase) to numeric value */
+/**
+ * A built-in level name, or a custom one registered via `createLogger({ levels })`.
+ * Built-in names keep editor autocompletion.
+ */
+export type LevelName = LogLevelName | (string & {});
+
+/** Custom level definitions — name to numeric value (e.g. `{ AUDIT: 45 }`) */
+export type CustomLevels = Record<string, number>;
+
+/** Map from level name (lowercase) to numeric value. Extended by `registerLevels()`. */
 export const LogLevelNameMap: Record<string, number> = Object.fromEntries(
   Object.entries(LogLevel).map(([k, v]) => [k.toLowerCase(), v]),
 );
 
-/** Map from numeric value to level name */
-export const LogLevelValueMap: Record<number, LogLevelName> =
-  Object.fromEntries(
-    Object.entries(LogLevel)
-      .filter(([, v]) => Number.isFinite(v))
-      .map(([k, v]) => [v, k as LogLevelName]),
-  ) as Record<number, LogLevelName>;
+/** Map from numeric value to level name. Extended by `registerLevels()`. */
+export const LogLevelValueMap: Record<number, LevelName> = Object.fromEntries(
+  Object.entries(LogLevel)
+    .filter(([, v]) => Number.isFinite(v))
+    .map(([k, v]) => [v, k]),
+);
 
 // ─── Log Entry ───────────────────────────────────────────────────
 
-export interface LogEntry<TMeta = Record<string, unknown>> {
-  /** Unique log ID (cuid2) */
+export interface LogEntry<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+> {
+  /** Unique log ID — cuid2 unless `idGenerator` says otherwise */
   id: string;
+  /**
+   * Per-process sequence number, increasing in call order. Always set by
+   * the logger; optional so hand-built entries stay valid.
+   */
+  seq?: number;
   /** Numeric log level */
   level: number;
   /** Human-readable level name */
-  levelName: LogLevelName;
+  levelName: LevelName;
   /** Log message */
   message: string;
   /** Unix epoch timestamp (ms) */
   timestamp: number;
+  /**
+   * Nanoseconds since the Unix epoch as a decimal string, set when
+   * `hrTimestamps` is enabled (too large for a `number`)
+   */
+  timestampNs?: string;
   /** User-defined structured metadata (type-safe via generics) */
   meta: TMeta;
+  /** Namespace of the logger that produced the entry (e.g. `ocpp:server`) */
+  namespace?: string;
   /** Bound context from child logger (e.g. chargePointId, sessionId) */
-  context?: Record<string, unknown>;
+  context?: Partial<TContext>;
   /** Correlation ID for tracing across async operations */
   correlationId?: string;
   /** Error information */
   error?: LogError;
+  /** OCPP exchange fields, set when `exchangeLog` is enabled */
+  exchange?: OcppExchangeMeta;
+  /** Original message when it was a template like `'Rejected {action}'` */
+  messageTemplate?: string;
+  /** Short stable hash of `messageTemplate`, for grouping */
+  templateHash?: string;
 }
 
 export interface LogError {
@@ -61,8 +90,64 @@ export interface LogError {
   stack?: string;
   code?: string;
   name?: string;
+  /** Serialized `error.cause` chain */
+  cause?: LogError;
+  /** Members of an `AggregateError` */
+  errors?: LogError[];
+  /** Set when the max depth cut off the cause/members of this error */
+  truncated?: boolean;
+  /** Set when this error already appeared higher up the chain */
+  circular?: boolean;
+  /** Custom own properties (e.g. `statusCode`, OCPP `errorCode`) */
+  [key: string]: unknown;
+}
+
+/**
+ * How a transport prints `LogEntry.timestamp`:
+ * - `'epoch-ms'` — milliseconds since the epoch, as a number
+ * - `'iso'` — ISO-8601 with the local timezone offset
+ * - `'rfc3339nano'` — RFC 3339 in UTC with nanoseconds (needs `hrTimestamps`
+ *   for sub-millisecond digits)
+ */
+export type TimestampFormat = "epoch-ms" | "iso" | "rfc3339nano";
+
+/** Produces `LogEntry.id` values (see `LoggerOptions.idGenerator`) */
+export type IdGenerator = () => string;
+
+/** Built-in ID generators */
+export type IdGeneratorName = "cuid2" | "ulid" | "uuidv7" | "counter" | "none";
+
+export interface SerializeErrorOptions {
+  /** Include `stack` on the error and every nested error (default: true) */
+  includeStack?: boolean;
+  /** Max nesting of causes, aggregate members and property values (default: 5) */
+  maxDepth?: number;
+}
+
+/** Limits applied by `safeStringify`; every cut is marked in the output */
+export interface SerializeLimits {
+  /** Objects nested deeper become `"[Truncated: max depth]"` (default: 10) */
+  maxDepth?: number;
+  /** Items kept per array, Set or Map (default: 1000) */
+  maxArrayLength?: number;
+  /** Characters kept per string (default: 100000) */
+  maxStringLength?: number;
+}
+
+export interface SafeStringifyOptions extends SerializeLimits {
+  /** Indentation, as for `JSON.stringify` */
+  space?: number | string;
 }
 
+/**
+ * Converts an error into a `LogError`. Set via `LoggerOptions.errorSerializer`
+ * to customize; call `serializeError` inside to extend the default output.
+ */
+export type ErrorSerializer = (
+  error: Error,
+  options: Required<SerializeErrorOptions>,
+) => LogError;
+
 // ─── OCPP Exchange Meta ──────────────────────────────────────────
 
 export interface OcppExchangeMeta {
@@ -86,6 +171,12 @@ export interface OcppExchangeMeta {
   status?: string;
 }
 
+/** Bound context fields read by OCPP-aware helpers (pretty, exchange log) */
+export interface OcppContext {
+  /** Charge point / station identity */
+  chargePointId?: string;
+}
+
 // ─── Transport ─────────────────────────────────────────────────
 
 /**
@@ -94,17 +185,131 @@ export interface OcppExchangeMeta {
  *
  * Transports are async-safe — `write()` can return a Promise.
  */
-export interface Transport<TMeta = Record<string, unknown>> {
+export interface Transport<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+> {
   /** Unique name for this transport */
   name: string;
   /** Optional per-transport level filter */
-  level?: LogLevelName;
-  /** Process a log entry */
-  write(entry: LogEntry<TMeta>): void | Promise<void>;
+  level?: LevelName;
+  /**
+   * Optional routing predicate, checked after `level`. Return `false`
+   * to skip this transport (e.g. `(e) => e.namespace === 'billing'`).
+   */
+  filter?(entry: LogEntry<TMeta, TContext>): boolean;
+  /**
+   * Process a log entry. When a write sends data (e.g. a full batch),
+   * return that promise so wrappers like `queueTransport` can apply
+   * backpressure.
+   */
+  write(entry: LogEntry<TMeta, TContext>): void | Promise<void>;
   /** Flush any buffered entries */
   flush?(): void | Promise<void>;
   /** Graceful shutdown */
   close?(): void | Promise<void>;
+  /**
+   * Receive a reporter for failures that happen outside `write()`
+   * (batched sends, non-OK HTTP responses). The logger always binds one,
+   * so these failures are counted in `stats()`. When the reporter doesn't
+   * return `true` (no reporter, or the logger has neither `onTransportError`
+   * nor `fallbackTransport`), the transport falls back to its own default.
+   */
+  setErrorReporter?(
+    reporter: TransportErrorReporter<TMeta, TContext> | undefined,
+  ): void;
+  /**
+   * Receive the logger's factory for entries the transport emits itself
+   * (e.g. `queueTransport` drop reports), so they get the logger's
+   * `idGenerator` and clock. Bound by the logger in `addTransport`.
+   */
+  setEntryFactory?(factory: EntryFactory<TMeta, TContext> | undefined): void;
+  /** Entries waiting for delivery, for transports that queue (see `logger.stats()`) */
+  readonly queued?: number;
+  /**
+   * Middleware run for this transport only, after the logger's pipeline
+   * and on a copy of the entry (see `withMiddleware`). Wrappers such as
+   * `queueTransport` pass on their inner transport's middleware.
+   */
+  middleware?: LogMiddleware<TMeta, TContext>[];
+  /**
+   * Set when `write()` modifies the entry or holds on to it and modifies
+   * it later. The transport then gets its own copy (entry plus `meta`,
+   * `context`, `error` and `exchange`) instead of the shared one.
+   */
+  mutable?: boolean;
+}
+
+/**
+ * Reports the entries a transport failed to deliver.
+ * Returns `true` when the failure was handled by the user's handlers.
+ */
+export type TransportErrorReporter<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+> = (
+  error: unknown,
+  entries: LogEntry<TMeta, TContext>[],
+  // biome-ignore lint/suspicious/noConfusingVoidType: reporters that return nothing stay valid
+) => boolean | void;
+
+/** Builds an entry stamped with the logger's id generator and clock */
+export type EntryFactory<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+> = (
+  levelName: LevelName,
+  message: string,
+  meta: TMeta,
+) => LogEntry<TMeta, TContext>;
+
+// ─── Stats ───────────────────────────────────────────────────────
+
+export interface TransportStats {
+  /** Writes that completed or failed */
+  writes: number;
+  /** Writes that threw, rejected or were reported as failed */
+  failures: number;
+  /** Entries waiting in the transport's queue */
+  queued: number;
+  /** Mean time for `write()` to return or settle, in ms */
+  avgLatencyMs: number;
+}
+
+/** Snapshot returned by `logger.stats()` */
+export interface LoggerStats {
+  /** Entries that made it through the middleware, by level name */
+  emitted: Record<string, number>;
+  /** Entries middleware chose not to forward */
+  dropped: {
+    total: number;
+    /** Keyed by registered middleware name */
+    byMiddleware: Record<string, number>;
+  };
+  /** Keyed by transport name */
+  transports: Record<string, TransportStats>;
+}
+
+// ─── Process Handlers ────────────────────────────────────────────
+
+export interface ProcessHandlerOptions {
+  /** Max time in ms to wait for `close()` before exiting (default: 5000) */
+  shutdownTimeoutMs?: number;
+  /** Exit with code 1 after logging a crash, as Node.js would (default: true) */
+  exitOnCrash?: boolean;
+  /** Signals that trigger a graceful close (default: ['SIGTERM', 'SIGINT']) */
+  signals?: string[];
+}
+
+// ─── Config Watching ─────────────────────────────────────────────
+
+export interface WatchConfigOptions {
+  /** How often to check the file for changes, in ms (default: 1000) */
+  intervalMs?: number;
+  /** Level of the "config reloaded" entry (default: 'INFO') */
+  level?: LevelName;
+  /** Variables for `${NAME}` references (default: `process.env`) */
+  env?: Record<string, string | undefined>;
 }
 
 // ─── Middleware ───────────────────────────────────────────────────
@@ -115,11 +320,35 @@ export interface Transport<TMeta = Record<string, unknown>> {
  *
  * Call `next(entry)` to continue the pipeline.
  * Omit `next()` to drop the entry (e.g. sampling).
+ *
+ * Middleware may be async — the pipeline awaits the returned promise
+ * (bounded by `middlewareTimeoutMs`) and keeps entries in order.
  */
-export type LogMiddleware<TMeta = Record<string, unknown>> = (
-  entry: LogEntry<TMeta>,
-  next: (entry: LogEntry<TMeta>) => void,
-) => void;
+export type LogMiddleware<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+> = (
+  entry: LogEntry<TMeta, TContext>,
+  next: (entry: LogEntry<TMeta, TContext>) => void,
+) => void | Promise<void>;
+
+/** Middleware registered under a name */
+export interface NamedMiddleware<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+> {
+  name: string;
+  middleware: LogMiddleware<TMeta, TContext>;
+}
+
+export interface InsertMiddlewareOptions {
+  /** Name to register under (default: the function name) */
+  name?: string;
+  /** Insert directly before this middleware */
+  before?: string;
+  /** Insert directly after this middleware */
+  after?: string;
+}
 
 // ─── Alert Rule ──────────────────────────────────────────────────
 
@@ -127,11 +356,14 @@ export type LogMiddleware<TMeta = Record<string, unknown>> = (
  * Alert rules evaluate log entries and fire callbacks
  * when configurable conditions are met.
  */
-export interface AlertRule<TMeta = Record<string, unknown>> {
+export interface AlertRule<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+> {
   /** Alert name (for identification) */
   name: string;
   /** Condition — return true if this entry should count toward the alert */
-  when: (entry: LogEntry<TMeta>) => boolean;
+  when: (entry: LogEntry<TMeta, TContext>) => boolean;
   /** Number of matching entries required to fire (default: 1) */
   threshold?: number;
   /** Time window in ms for threshold counting */
@@ -139,73 +371,383 @@ export interface AlertRule<TMeta = Record<string, unknown>> {
   /** Minimum cooldown in ms between alert firings (default: 0) */
   cooldownMs?: number;
   /** Callback fired when alert conditions are met */
-  onAlert: (entries: LogEntry<TMeta>[]) => void | Promise<void>;
+  onAlert: (entries: LogEntry<TMeta, TContext>[]) => void | Promise<void>;
 }
 
 // ─── Logger Options ──────────────────────────────────────────────
 
-export interface LoggerOptions<TMeta = Record<string, unknown>> {
+export interface LoggerOptions<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+> {
   /** Minimum log level (default: INFO) */
-  level?: LogLevelName;
+  level?: LevelName;
   /** Transports for log output */
-  transports?: Transport<TMeta>[];
-  /** Middleware pipeline */
-  middleware?: LogMiddleware<TMeta>[];
+  transports?: Transport<TMeta, TContext>[];
+  /**
+   * Middleware pipeline. Plain functions are registered under their
+   * function name; pass `{ name, middleware }` to choose the name.
+   */
+  middleware?: Array<
+    LogMiddleware<TMeta, TContext> | NamedMiddleware<TMeta, TContext>
+  >;
   /** Alert rules */
-  alerts?: AlertRule<TMeta>[];
+  alerts?: AlertRule<TMeta, TContext>[];
+  /**
+   * Freeze entries (and their `meta`, `context`, `error` and `exchange`)
+   * before they reach transports, so accidental mutation throws.
+   * Default: `true` when `NODE_ENV` is `development`
+   */
+  freezeEntries?: boolean;
   /** Default bound context for all log entries */
-  context?: Record<string, unknown>;
+  context?: Partial<TContext>;
   /** Field paths to auto-redact (e.g. ['idToken', 'password']) */
   redact?: string[];
   /**
    * When to include error stack traces:
    * - `true` — always include
    * - `false` — never include
-   * - `LogLevelName` — include at this level and above
+   * - `LevelName` — include at this level and above
    * Default: 'ERROR'
    */
-  includeStack?: boolean | LogLevelName;
+  includeStack?: boolean | LevelName;
+  /**
+   * Converts errors — the error argument and any `Error` inside meta —
+   * into `LogError` objects (default: `serializeError`)
+   */
+  errorSerializer?: ErrorSerializer;
+  /**
+   * Max depth for error `cause` chains, `AggregateError` members and
+   * nested meta searched for errors (default: 5)
+   */
+  maxErrorDepth?: number;
   /**
-   * Exchange log mode:
+   * Exchange log mode. Exchange entries are those whose meta carries
+   * an OCPP `action` and `messageType`; they get `entry.exchange` set.
    * - `true` — exchange logs alongside normal logs
-   * - `'only'` — only exchange-formatted logs
+   * - `'only'` — only exchange-formatted logs, everything else is dropped
    * - `false` — disabled (default)
    */
   exchangeLog?: boolean | "only";
+  /**
+   * Render `{name}` placeholders in messages from meta, then context.
+   * The entry keeps `messageTemplate` and `templateHash` (default: false)
+   */
+  messageTemplates?: boolean;
+  /**
+   * Treat `%s %d %i %f %j %o %O %%` in string messages as format
+   * specifiers filled from extra arguments; leftovers go to `meta.args`.
+   * `createLogger` then returns a `PrintfLogger`. Messages filled from
+   * arguments are not treated as templates (default: false)
+   */
+  printf?: boolean;
+  /**
+   * How `LogEntry.id` is generated: `'cuid2'`, `'ulid'`, `'uuidv7'`,
+   * `'counter'`, `'none'` or a function (default: 'cuid2')
+   */
+  idGenerator?: IdGeneratorName | IdGenerator;
   /** Custom timestamp function (default: Date.now) */
   timestamp?: () => number;
+  /**
+   * Stamp entries with `timestampNs` from a high-resolution clock, so
+   * entries within the same millisecond keep their order. Unless a custom
+   * `timestamp` is set, `timestamp` comes from the same reading (default: false)
+   */
+  hrTimestamps?: boolean;
+  /**
+   * Extra levels, e.g. `{ NOTICE: 35, AUDIT: 45, SECURITY: 55 }`.
+   * Each gets a lowercase method (`logger.audit(...)`) and is registered
+   * globally so level filters, `resolveLevel` and transports understand it.
+   */
+  levels?: CustomLevels;
+  /**
+   * Per-namespace levels, DEBUG-style (e.g. `'ocpp:*=DEBUG,db=WARN,*=INFO'`).
+   * `pattern` alone enables everything, `-pattern` silences it.
+   * Applies to loggers created via `logger.namespace()`.
+   */
+  namespaces?: string;
+  /**
+   * Environment variable that overrides `namespaces` when set.
+   * Pass `false` to ignore the environment (default: 'VOLTLOG_NAMESPACES')
+   */
+  namespacesEnv?: string | false;
+  /**
+   * Max time in ms an async middleware may run before the entry is
+   * dropped and a timeout error is reported (default: 5000)
+   */
+  middlewareTimeoutMs?: number;
+  /**
+   * Keep entries in call order while async middleware is pending.
+   * Set to `false` to let sync-only entries overtake slow ones (default: true)
+   */
+  orderedMiddleware?: boolean;
+  /**
+   * Called when a middleware throws, rejects or times out.
+   * Default: sync throws propagate to the caller, async failures go to `console.error`.
+   */
+  onMiddlewareError?: (
+    error: unknown,
+    entry: LogEntry<TMeta, TContext>,
+  ) => void;
+  /**
+   * Called when a transport throws, rejects or reports a failed delivery.
+   * Default: transport errors are swallowed to protect the host app.
+   */
+  onTransportError?: (
+    error: unknown,
+    transport: Transport<TMeta, TContext>,
+    entry: LogEntry<TMeta, TContext>,
+  ) => void;
+  /**
+   * Receives entries that another transport failed to deliver
+   * (e.g. a local file when Loki is unreachable).
+   */
+  fallbackTransport?: Transport<TMeta, TContext>;
+  /**
+   * Log `logger.stats()` as an entry (meta: `{ stats }`) every
+   * `intervalMs`, at `level` (default: 'INFO'). Stopped by `close()`.
+   */
+  statsInterval?: { intervalMs: number; level?: LevelName };
 }
 
+// ─── Lazy Evaluation ─────────────────────────────────────────────
+
+/**
+ * Lazily builds the message (and optionally meta).
+ * Only called when the entry's level is enabled.
+ */
+export type LazyMessage<TMeta = Record<string, unknown>> = () =>
+  | string
+  | [message: string, meta?: Partial<TMeta>];
+
+/** Lazily builds meta. Only called when the entry's level is enabled. */
+export type LazyMeta<TMeta = Record<string, unknown>> = () => Partial<TMeta>;
+
+/** A message or a thunk producing it */
+export type LogMessage<TMeta = Record<string, unknown>> =
+  | string
+  | LazyMessage<TMeta>;
+
+/** Meta or a thunk producing it */
+export type LogMeta<TMeta = Record<string, unknown>> =
+  | Partial<TMeta>
+  | LazyMeta<TMeta>;
+
 // ─── Logger Interface ────────────────────────────────────────────
 
-export interface Logger<TMeta = Record<string, unknown>> {
-  trace(message: string, meta?: Partial<TMeta>): void;
-  debug(message: string, meta?: Partial<TMeta>): void;
-  info(message: string, meta?: Partial<TMeta>): void;
-  warn(message: string, meta?: Partial<TMeta>): void;
+/**
+ * Every level method accepts values or thunks:
+ * `logger.debug('msg', () => meta)` or `logger.debug(() => ['msg', meta])`.
+ * With `printf: true` the logger is a `PrintfLogger`, whose string
+ * messages also take format arguments.
+ *
+ * `TContext` types the bound context — `child()`, `runWithContext()` and
+ * `LogEntry.context` — e.g. `Logger<OcppExchangeMeta, OcppContext>`.
+ */
+export interface Logger<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+> {
+  trace(message: LogMessage<TMeta>, meta?: LogMeta<TMeta>): void;
+  debug(message: LogMessage<TMeta>, meta?: LogMeta<TMeta>): void;
+  info(message: LogMessage<TMeta>, meta?: LogMeta<TMeta>): void;
+  warn(message: LogMessage<TMeta>, meta?: LogMeta<TMeta>): void;
   error(
-    message: string,
-    metaOrError?: Partial<TMeta> | Error,
+    message: LogMessage<TMeta>,
+    metaOrError?: LogMeta<TMeta> | Error,
     error?: Error,
   ): void;
   fatal(
-    message: string,
-    metaOrError?: Partial<TMeta> | Error,
+    message: LogMessage<TMeta>,
+    metaOrError?: LogMeta<TMeta> | Error,
     error?: Error,
   ): void;
 
   /** Create a child logger with additional bound context */
-  child(context: Record<string, unknown>): Logger<TMeta>;
+  child(context: Partial<TContext>): Logger<TMeta, TContext>;
+  /**
+   * Create a namespaced child logger. Nested calls join with `:`
+   * (e.g. `logger.namespace('ocpp').namespace('server')` → `ocpp:server`).
+   */
+  namespace(name: string): Logger<TMeta, TContext>;
+
+  /** Counters for entries emitted, dropped and delivered by this logger */
+  stats(): LoggerStats;
+
+  /**
+   * Log crashes as FATAL and flush/close on shutdown signals.
+   * Idempotent — repeated calls return the same uninstall function.
+   * `close()` uninstalls them too.
+   */
+  installProcessHandlers(options?: ProcessHandlerOptions): () => void;
+
+  /**
+   * Apply a JSON config file (`level`, `transports`, `middleware` — see
+   * `createLoggerFromConfig`) now and again whenever it changes. Only what
+   * the file installed is replaced; removed transports are closed once
+   * in-flight entries have drained. Each reload is logged with its diff.
+   * Node.js/Bun/Deno only. Returns a function that stops watching.
+   */
+  watchConfig(path: string, options?: WatchConfigOptions): () => void;
+
+  /**
+   * Run `fn` with ambient context (e.g. `{ correlationId, chargePointId }`)
+   * that every entry logged inside it — by any logger — picks up, across
+   * `await` on Node.js/Bun/Deno. Bound child context wins on conflicts.
+   */
+  runWithContext<T>(context: Partial<TContext>, fn: () => T): T;
+
+  /**
+   * Start a timer. Its level methods log like the logger's and add
+   * `durationMs` (high-resolution where available) to meta.
+   */
+  startTimer(): LogTimer<TMeta>;
+  /**
+   * Run `fn` (sync or async) and log `label` with its `durationMs` at INFO,
+   * or `"<label> failed"` with the error at ERROR. Returns `fn`'s result.
+   */
+  time<T>(label: string, fn: () => T, meta?: Partial<TMeta>): T;
+
+  /**
+   * Change the minimum level at runtime.
+   * On a child logger this overrides the level inherited from its parent.
+   */
+  setLevel(level: LevelName): void;
+  /** Current effective minimum level */
+  getLevel(): LevelName;
+  /** Check whether entries at `level` would be logged — useful to skip building expensive meta */
+  isLevelEnabled(level: LevelName): boolean;
 
   /** Add a transport at runtime */
-  addTransport(transport: Transport<TMeta>): void;
+  addTransport(transport: Transport<TMeta, TContext>): void;
   /** Remove a transport by name */
   removeTransport(name: string): void;
-  /** Add middleware at runtime */
-  addMiddleware(middleware: LogMiddleware<TMeta>): void;
+  /** Append middleware at runtime, optionally under a given name */
+  addMiddleware(
+    middleware: LogMiddleware<TMeta, TContext>,
+    name?: string,
+  ): void;
+  /**
+   * Insert middleware relative to a named one,
+   * e.g. `insertMiddleware(mw, { before: 'redaction' })`.
+   */
+  insertMiddleware(
+    middleware: LogMiddleware<TMeta, TContext>,
+    options: InsertMiddlewareOptions,
+  ): void;
+  /** Remove middleware by name. Returns false if no such middleware */
+  removeMiddleware(name: string): boolean;
+  /** Names of the registered middleware, in pipeline order */
+  listMiddleware(): string[];
 
-  /** Flush all transports */
+  /** Wait for in-flight async middleware, then flush all transports */
   flush(): Promise<void>;
   /** Close all transports gracefully */
   close(): Promise<void>;
 }
+
+/** Returned by `logger.startTimer()` */
+export type LogTimer<TMeta = Record<string, unknown>> = Pick<
+  Logger<TMeta>,
+  "trace" | "debug" | "info" | "warn" | "error" | "fatal"
+> & {
+  /** Milliseconds since the timer started */
+  elapsed(): number;
+};
+
+// ─── Custom Levels ───────────────────────────────────────────────
+
+/** Signature shared by custom level methods */
+export type LevelMethod<TMeta = Record<string, unknown>> = (
+  message: LogMessage<TMeta>,
+  metaOrError?: LogMeta<TMeta> | Error,
+  error?: Error,
+) => void;
+
+/** One lowercase method per custom level (`AUDIT` → `audit()`) */
+export type CustomLevelMethods<
+  TMeta = Record<string, unknown>,
+  TLevels extends CustomLevels = CustomLevels,
+> = {
+  [K in keyof TLevels as Lowercase<K & string>]: LevelMethod<TMeta>;
+};
+
+/** A logger with generated methods for its custom levels */
+export type LoggerWithLevels<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+  TLevels extends CustomLevels = Record<never, number>,
+> = Omit<Logger<TMeta, TContext>, "child" | "namespace"> &
+  CustomLevelMethods<TMeta, TLevels> & {
+    child(
+      context: Partial<TContext>,
+    ): LoggerWithLevels<TMeta, TContext, TLevels>;
+    namespace(name: string): LoggerWithLevels<TMeta, TContext, TLevels>;
+  };
+
+/**
+ * Returned by `createLogger.withLevels()`: `createLogger` with the custom
+ * levels already chosen, so meta and context types can be given explicitly
+ */
+export interface LevelsLoggerFactory<TLevels extends CustomLevels> {
+  <TMeta = Record<string, unknown>, TContext = Record<string, unknown>>(
+    options: Omit<LoggerOptions<TMeta, TContext>, "levels"> & { printf: true },
+  ): PrintfLogger<TMeta, TContext, TLevels>;
+  <TMeta = Record<string, unknown>, TContext = Record<string, unknown>>(
+    options?: Omit<LoggerOptions<TMeta, TContext>, "levels">,
+  ): LoggerWithLevels<TMeta, TContext, TLevels>;
+}
+
+// ─── printf ──────────────────────────────────────────────────────
+
+/** A level method that also takes printf-style format arguments */
+export type PrintfLevelMethod<TMeta = Record<string, unknown>> = {
+  (
+    message: LogMessage<TMeta>,
+    metaOrError?: LogMeta<TMeta> | Error,
+    error?: Error,
+  ): void;
+  (message: string, ...args: unknown[]): void;
+};
+
+type BuiltinLevelMethod =
+  | "trace"
+  | "debug"
+  | "info"
+  | "warn"
+  | "error"
+  | "fatal";
+
+/** Returned by `startTimer()` on a `PrintfLogger` */
+export type PrintfLogTimer<TMeta = Record<string, unknown>> = {
+  [K in BuiltinLevelMethod]: PrintfLevelMethod<TMeta>;
+} & {
+  /** Milliseconds since the timer started */
+  elapsed(): number;
+};
+
+/**
+ * Returned by `createLogger({ printf: true })`. Level methods also take
+ * format arguments — `logger.info('connected %s in %dms', id, ms)` — so
+ * meta is not checked against `TMeta` in that form.
+ */
+export type PrintfLogger<
+  TMeta = Record<string, unknown>,
+  TContext = Record<string, unknown>,
+  TLevels extends CustomLevels = Record<never, number>,
+> = Omit<
+  LoggerWithLevels<TMeta, TContext, TLevels>,
+  | BuiltinLevelMethod
+  | Lowercase<keyof TLevels & string>
+  | "child"
+  | "namespace"
+  | "startTimer"
+> & {
+  [K in
+    | BuiltinLevelMethod
+    | Lowercase<keyof TLevels & string>]: PrintfLevelMethod<TMeta>;
+} & {
+  child(context: Partial<TContext>): PrintfLogger<TMeta, TContext, TLevels>;
+  namespace(name: string): PrintfLogger<TMeta, TContext, TLevels>;
+  startTimer(): PrintfLogTimer<TMeta>;
+};
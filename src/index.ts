@@ -6,25 +6,100 @@
  * Works as a standalone package or via `ocpp-ws-io/logger` re-export.
  */
 
-// ─── Level Utilities ─────────────────────────────────────────────
-export { resolveLevel, shouldIncludeStack, shouldLog } from "./core/levels.js";
 // ─── Core ────────────────────────────────────────────────────────
-export { createLogger } from "./core/logger.js";
+export {
+  type ConfigLoaderOptions,
+  type ConfigOptionSpec,
+  type ConfigSchema,
+  ConfigValidationError,
+  type ConfigValueType,
+  type LoggerConfig,
+  listConfigFactories,
+  type MiddlewareConfig,
+  type MiddlewareFactory,
+  registerMiddlewareFactory,
+  registerTransportFactory,
+  type TransportConfig,
+  type TransportFactory,
+  validateLoggerConfig,
+} from "./core/config.js";
+export type { ConfigChanges } from "./core/config-watch.js";
+export {
+  getContext,
+  hasAsyncContext,
+  runWithContext,
+} from "./core/context.js";
+export { serializeError, serializeMetaErrors } from "./core/errors.js";
+export { createIdGenerator } from "./core/ids.js";
+// ─── Level Utilities ─────────────────────────────────────────────
+export {
+  registerLevels,
+  resolveLevel,
+  shouldIncludeStack,
+  shouldLog,
+} from "./core/levels.js";
+export { createLogger, createLoggerFromConfig } from "./core/logger.js";
+export {
+  type NamespaceRule,
+  parseNamespaces,
+  readNamespacesFromEnv,
+  resolveNamespaceLevel,
+} from "./core/namespaces.js";
+export { formatPrintf } from "./core/printf.js";
+export { safeStringify } from "./core/serialize.js";
+export { formatStatsPrometheus } from "./core/stats.js";
+export {
+  hashTemplate,
+  isMessageTemplate,
+  renderTemplate,
+} from "./core/template.js";
+export { formatTimestamp, hrEpochNs } from "./core/time.js";
+export { hrNow } from "./core/timing.js";
 // ─── Types ───────────────────────────────────────────────────────
 export {
   type AlertRule,
+  type CustomLevelMethods,
+  type CustomLevels,
+  type EntryFactory,
+  type ErrorSerializer,
+  type IdGenerator,
+  type IdGeneratorName,
+  type InsertMiddlewareOptions,
+  type LazyMessage,
+  type LazyMeta,
+  type LevelMethod,
+  type LevelName,
+  type LevelsLoggerFactory,
   type LogEntry,
   type LogError,
   type Logger,
   type LoggerOptions,
+  type LoggerStats,
+  type LoggerWithLevels,
   LogLevel,
   type LogLevelName,
   LogLevelNameMap,
   type LogLevelValue,
   LogLevelValueMap,
+  type LogMessage,
+  type LogMeta,
   type LogMiddleware,
+  type LogTimer,
+  type NamedMiddleware,
+  type OcppContext,
   type OcppExchangeMeta,
+  type PrintfLevelMethod,
+  type PrintfLogger,
+  type PrintfLogTimer,
+  type ProcessHandlerOptions,
+  type SafeStringifyOptions,
+  type SerializeErrorOptions,
+  type SerializeLimits,
+  type TimestampFormat,
   type Transport,
+  type TransportErrorReporter,
+  type TransportStats,
+  type WatchConfigOptions,
 } from "./core/types.js";
 export {
   type AiEnrichmentOptions,
@@ -41,6 +116,11 @@ export {
   type DeduplicationOptions,
   deduplicationMiddleware,
 } from "./middleware/deduplication.js";
+export {
+  type ExchangeLogOptions,
+  exchangeLogMiddleware,
+  isExchangeEntry,
+} from "./middleware/exchange-log.js";
 // Extended Middleware
 export { heapUsageMiddleware } from "./middleware/heap-usage.js";
 export { ipMiddleware } from "./middleware/ip.js";
@@ -89,6 +169,11 @@ export {
   discordTransport,
 } from "./transports/discord.js";
 export { type FileTransportOptions, fileTransport } from "./transports/file.js";
+export {
+  assertHttpOk,
+  type HttpResponseLike,
+  TransportHttpError,
+} from "./transports/http.js";
 export {
   type JsonStreamTransportOptions,
   jsonStreamTransport,
@@ -98,11 +183,22 @@ export {
   type PrettyTransportOptions,
   prettyTransport,
 } from "./transports/pretty.js";
+export {
+  type DropPolicy,
+  type QueuedTransport,
+  type QueueTransportOptions,
+  queueTransport,
+} from "./transports/queue.js";
 export {
   type RedisClient,
   type RedisTransportOptions,
   redisTransport,
 } from "./transports/redis.js";
+export {
+  type Route,
+  type RouterTransportOptions,
+  routerTransport,
+} from "./transports/router.js";
 export {
   type SentryInstance,
   type SentryTransportOptions,
@@ -116,3 +212,4 @@ export {
   type WebhookTransportOptions,
   webhookTransport,
 } from "./transports/webhook.js";
+export { withMiddleware } from "./transports/with-middleware.js";
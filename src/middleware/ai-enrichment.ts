@@ -8,14 +8,14 @@
  */
 
 import { resolveLevel } from "../core/levels.js";
-import type { LogEntry, LogLevelName, LogMiddleware } from "../core/types.js";
+import type { LevelName, LogEntry, LogMiddleware } from "../core/types.js";
 
 export interface AiEnrichmentOptions {
   /**
    * Only trigger for logs at or above this level.
    * Default: ERROR
    */
-  level?: LogLevelName;
+  level?: LevelName;
 
   /**
    * Field name to store the analysis result in `entry.meta`.
@@ -72,6 +72,7 @@ export function aiEnrichmentMiddleware<TMeta = Record<string, unknown>>(
       return;
     }
 
+    let enriched = entry;
     try {
       // 2. Call analyzer with timeout
       const analysisPromise = options.analyzer(entry as unknown as LogEntry);
@@ -82,9 +83,10 @@ export function aiEnrichmentMiddleware<TMeta = Record<string, unknown>>(
       const result = await Promise.race([analysisPromise, timeoutPromise]);
 
       if (result) {
-        entry.meta = {
-          ...entry.meta,
-          [fieldName]: result,
+        // Copy rather than mutate — the analyzer may still hold `entry`
+        enriched = {
+          ...entry,
+          meta: { ...entry.meta, [fieldName]: result },
         };
       }
     } catch (err) {
@@ -94,7 +96,7 @@ export function aiEnrichmentMiddleware<TMeta = Record<string, unknown>>(
       // Otherwise ignore
     }
 
-    next(entry);
+    next(enriched);
   };
 }
 
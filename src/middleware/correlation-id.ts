@@ -6,6 +6,7 @@
  */
 
 import { createId } from "@paralleldrive/cuid2";
+import { getContext } from "../core/context.js";
 import type { LogMiddleware } from "../core/types.js";
 
 export interface CorrelationIdOptions {
@@ -28,6 +29,7 @@ export interface CorrelationIdOptions {
  * 2. entry.meta.correlationId
  * 3. entry.meta.traceId
  * 4. entry.meta[header]
+ * 5. ambient context from `logger.runWithContext()`
  *
  * If none found, generates a new one.
  */
@@ -50,21 +52,26 @@ export function correlationIdMiddleware<TMeta = Record<string, unknown>>(
       (meta.traceId as string) ||
       (meta[header] as string);
 
-    // 3. Generate if missing
+    // 3. Ambient context (captured on the entry, or still active)
     if (!id) {
-      id = generate();
+      id =
+        (entry.context?.correlationId as string) ||
+        (getContext()?.correlationId as string);
     }
 
-    // 4. Assign
-    entry.correlationId = id;
-
-    // Also ensure it's in meta for visibility if desired (optional, but good for transports that only dump meta)
-    // We won't overwrite existing keys to avoid side effects, but we can standardize on correlationId
-    if (!meta.correlationId) {
-      // cast to allows assignment
-      (entry.meta as Record<string, unknown>).correlationId = id;
+    // 4. Generate if missing
+    if (!id) {
+      id = generate();
     }
 
-    next(entry);
+    // 5. Assign on a copy — also in meta for transports that only dump
+    // meta, without overwriting an existing key
+    next({
+      ...entry,
+      correlationId: id,
+      meta: meta.correlationId
+        ? entry.meta
+        : ({ ...meta, correlationId: id } as TMeta),
+    });
   };
 }
@@ -18,6 +18,12 @@ export interface DeduplicationOptions<TMeta = Record<string, unknown>> {
    * Default: uses `entry.message` + `entry.level`
    */
   keyFn?: (entry: LogEntry<TMeta>) => string;
+  /**
+   * What the default key uses: the rendered `message`, or its
+   * `messageTemplate` so entries differing only in values are grouped
+   * (default: 'message')
+   */
+  keyBy?: "message" | "template";
 }
 
 interface DedupState<TMeta> {
@@ -35,13 +41,17 @@ export function deduplicationMiddleware<TMeta = Record<string, unknown>>(
   options: DeduplicationOptions<TMeta> = {},
 ): LogMiddleware<TMeta> {
   const windowMs = options.windowMs ?? 1000;
+  const byTemplate = options.keyBy === "template";
   const keyFn =
     options.keyFn ??
-    ((e) => `${e.level}:${e.message}:${e.error?.message ?? ""}`);
+    ((e) => {
+      const message = byTemplate ? (e.messageTemplate ?? e.message) : e.message;
+      return `${e.level}:${message}:${e.error?.message ?? ""}`;
+    });
 
   const buffer = new Map<string, DedupState<TMeta>>();
 
-  return (entry, next) => {
+  const deduplication: LogMiddleware<TMeta> = (entry, next) => {
     const key = keyFn(entry);
 
     if (buffer.has(key)) {
@@ -57,13 +67,14 @@ export function deduplicationMiddleware<TMeta = Record<string, unknown>>(
       const state = buffer.get(key);
       if (state) {
         buffer.delete(key);
-        if (state.count > 1) {
-          state.entry.meta = {
-            ...state.entry.meta,
-            duplicateCount: state.count,
-          };
-        }
-        next(state.entry);
+        next(
+          state.count > 1
+            ? {
+                ...state.entry,
+                meta: { ...state.entry.meta, duplicateCount: state.count },
+              }
+            : state.entry,
+        );
       }
     }, windowMs);
 
@@ -73,4 +84,5 @@ export function deduplicationMiddleware<TMeta = Record<string, unknown>>(
       timer,
     });
   };
+  return deduplication;
 }
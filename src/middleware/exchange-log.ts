@@ -0,0 +1,89 @@
+/**
+ * @module voltlog-io
+ * @description Exchange log middleware — extracts OCPP exchange data and optionally drops everything else.
+ * @universal Works in all environments.
+ *
+ * Installed automatically by `createLogger({ exchangeLog })`, but can also be used directly.
+ *
+ * @example
+ * ```ts
+ * import { createLogger, consoleTransport } from 'voltlog-io';
+ *
+ * // Only OCPP exchanges reach the transports
+ * const logger = createLogger({
+ *   transports: [consoleTransport()],
+ *   exchangeLog: 'only',
+ * });
+ *
+ * logger.info('Server started'); // dropped
+ * logger.info('OCPP message', { action: 'BootNotification', messageType: 'CALL' });
+ * // → entry.exchange = { action: 'BootNotification', messageType: 'CALL' }
+ * ```
+ */
+
+import type {
+  LogEntry,
+  LogMiddleware,
+  OcppContext,
+  OcppExchangeMeta,
+} from "../core/types.js";
+
+export interface ExchangeLogOptions {
+  /**
+   * - `'both'` — exchange entries are annotated, all other entries pass through
+   * - `'only'` — non-exchange entries are dropped
+   * Default: 'both'
+   */
+  mode?: "both" | "only";
+}
+
+const EXCHANGE_FIELDS: (keyof OcppExchangeMeta)[] = [
+  "chargePointId",
+  "messageType",
+  "action",
+  "direction",
+  "correlationId",
+  "protocol",
+  "payloadSize",
+  "latencyMs",
+  "status",
+];
+
+/**
+ * Check whether an entry describes an OCPP exchange
+ * (i.e. carries both `action` and `messageType` in its meta).
+ */
+export function isExchangeEntry(entry: LogEntry<unknown>): boolean {
+  const meta = entry.meta as Partial<OcppExchangeMeta> | undefined;
+  return !!meta?.action && !!meta.messageType;
+}
+
+/**
+ * Create an exchange log middleware.
+ * Exchange entries get an `exchange` field holding their OCPP fields.
+ */
+export function exchangeLogMiddleware<TMeta = Record<string, unknown>>(
+  options: ExchangeLogOptions = {},
+): LogMiddleware<TMeta> {
+  const only = options.mode === "only";
+
+  return (entry: LogEntry<TMeta>, next) => {
+    if (!isExchangeEntry(entry)) {
+      if (!only) next(entry);
+      return;
+    }
+
+    const meta = entry.meta as Record<string, unknown>;
+    const exchange: Record<string, unknown> = {};
+    for (const field of EXCHANGE_FIELDS) {
+      if (meta[field] !== undefined) exchange[field] = meta[field];
+    }
+    // Child loggers usually bind the charge point as context
+    const context = entry.context as Partial<OcppContext> | undefined;
+    if (exchange.chargePointId === undefined && context?.chargePointId) {
+      exchange.chargePointId = context.chargePointId;
+    }
+
+    next({ ...entry, exchange: exchange as OcppExchangeMeta });
+  };
+}
@@ -6,7 +6,7 @@
  */
 
 import type { LogMiddleware } from "../core/types.js";
-import { LogLevel, type LogLevelName } from "../core/types.js";
+import { LogLevelNameMap } from "../core/types.js";
 
 export interface LevelOverrideOptions {
   /**
@@ -34,27 +34,36 @@ export function levelOverrideMiddleware<TMeta = Record<string, unknown>>(
   return (entry, next) => {
     const meta = entry.meta as Record<string, unknown>;
     const context = entry.context as Record<string, unknown> | undefined;
+    const headers = meta.headers as Record<string, unknown> | undefined;
 
     // Check meta, then context, then headers in meta
     const levelName =
       (meta[key] as string) ||
       (context?.[key] as string) ||
-      ((meta.headers as Record<string, unknown>)?.[key] as string);
+      (headers?.[key] as string);
 
     if (levelName && typeof levelName === "string") {
-      const upperName = levelName.toUpperCase() as LogLevelName;
-      if (LogLevel[upperName]) {
-        // Upgrade the entry level so it passes transport filters
-        // NOTE: This modifies the entry itself, which affects all transports
-        entry.level = LogLevel[upperName];
-        entry.levelName = upperName;
-
+      // Name map includes custom levels registered via createLogger({ levels })
+      const value = LogLevelNameMap[levelName.toLowerCase()];
+      if (value !== undefined && Number.isFinite(value)) {
+        // Upgrade the level on a copy so it passes transport filters;
+        // the caller's meta and headers are left untouched
+        let nextMeta = meta;
         if (cleanup) {
-          delete meta[key];
-          if (meta.headers) {
-            delete (meta.headers as Record<string, unknown>)[key];
+          const { [key]: _removed, ...rest } = meta;
+          nextMeta = rest;
+          if (headers && typeof headers === "object") {
+            const { [key]: _header, ...restHeaders } = headers;
+            nextMeta.headers = restHeaders;
           }
         }
+        next({
+          ...entry,
+          level: value,
+          levelName: levelName.toUpperCase(),
+          meta: nextMeta as TMeta,
+        });
+        return;
       }
     }
 
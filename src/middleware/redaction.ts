@@ -17,6 +17,7 @@
  * ```
  */
 
+import { renderTemplate, templateValues } from "../core/template.js";
 import type { LogEntry, LogMiddleware } from "../core/types.js";
 
 const DEFAULT_REDACT_VALUE = "[REDACTED]";
@@ -72,6 +73,14 @@ export function redactionMiddleware<TMeta = Record<string, unknown>>(
       redacted.context = redactObject(entry.context);
     }
 
+    // Re-render so redacted values can't leak through a template message
+    if (entry.messageTemplate !== undefined) {
+      redacted.message = renderTemplate(
+        entry.messageTemplate,
+        templateValues(redacted),
+      );
+    }
+
     next(redacted);
   };
 }
@@ -25,9 +25,15 @@ export interface SamplingOptions<TMeta = Record<string, unknown>> {
   /**
    * Function to extract a sampling key from a log entry.
    * Entries with the same key share a rate limit.
-   * Default: uses `entry.message`
+   * Default: uses `entry.message`, or the template per `keyBy`
    */
   keyFn?: (entry: LogEntry<TMeta>) => string;
+  /**
+   * What the default key uses: the rendered `message`, or its
+   * `messageTemplate` so every `'Rejected {action}'` shares a limit
+   * (default: 'message')
+   */
+  keyBy?: "message" | "template";
   /** Maximum entries allowed per key per window (default: 100) */
   maxPerWindow?: number;
   /** Time window in ms (default: 60000 = 1 minute) */
@@ -49,7 +55,11 @@ interface BucketEntry {
 export function samplingMiddleware<TMeta = Record<string, unknown>>(
   options: SamplingOptions<TMeta> = {},
 ): LogMiddleware<TMeta> {
-  const keyFn = options.keyFn ?? ((entry: LogEntry<TMeta>) => entry.message);
+  const byTemplate = options.keyBy === "template";
+  const keyFn =
+    options.keyFn ??
+    ((entry: LogEntry<TMeta>) =>
+      byTemplate ? (entry.messageTemplate ?? entry.message) : entry.message);
   const maxPerWindow = options.maxPerWindow ?? 100;
   const windowMs = options.windowMs ?? 60_000;
   const sampleRate = options.sampleRate ?? 1;
@@ -58,7 +68,7 @@ export function samplingMiddleware<TMeta = Record<string, unknown>>(
 
   const buckets = new Map<string, BucketEntry>();
 
-  return (entry: LogEntry<TMeta>, next) => {
+  const sampling: LogMiddleware<TMeta> = (entry, next) => {
     // 1. High priority logs always pass
     if (entry.level >= priorityLevel) {
       return next(entry);
@@ -96,4 +106,5 @@ export function samplingMiddleware<TMeta = Record<string, unknown>>(
       }
     }
   };
+  return sampling;
 }
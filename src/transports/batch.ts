@@ -16,7 +16,11 @@
  * ```
  */
 
-import type { LogEntry, Transport } from "../core/types.js";
+import type {
+  LogEntry,
+  Transport,
+  TransportErrorReporter,
+} from "../core/types.js";
 
 export interface BatchTransportOptions {
   /** Number of entries to buffer before flushing (default: 100) */
@@ -38,6 +42,7 @@ export function batchTransport(
 
   let buffer: LogEntry[] = [];
   let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let report: TransportErrorReporter | undefined;
 
   function scheduleFlush(): void {
     if (flushTimer) return;
@@ -55,10 +60,11 @@ export function batchTransport(
       try {
         const result = inner.write(entry);
         if (result && typeof (result as Promise<void>).catch === "function") {
-          (result as Promise<void>).catch(() => {});
+          (result as Promise<void>).catch((err) => report?.(err, [entry]));
         }
-      } catch {
-        /* Swallowed */
+      } catch (err) {
+        /* Swallowed unless a reporter is bound */
+        report?.(err, [entry]);
       }
     }
   }
@@ -66,6 +72,9 @@ export function batchTransport(
   return {
     name: `batch(${inner.name})`,
     level: inner.level,
+    filter: inner.filter?.bind(inner),
+    mutable: inner.mutable,
+    middleware: inner.middleware,
     write(entry: LogEntry): void {
       buffer.push(entry);
       if (buffer.length >= batchSize) {
@@ -86,5 +95,12 @@ export function batchTransport(
       await this.flush?.();
       await inner.close?.();
     },
+    setErrorReporter(reporter) {
+      report = reporter;
+      inner.setErrorReporter?.(reporter);
+    },
+    setEntryFactory(factory) {
+      inner.setEntryFactory?.(factory);
+    },
   };
 }
@@ -5,7 +5,15 @@
  * Useful for streaming logs in browser environments (e.g. to `fetch` streams or ServiceWorkers).
  */
 
-import type { LogEntry, LogLevelName, Transport } from "../core/types.js";
+import { safeStringify } from "../core/serialize.js";
+import { withTimestampFormat } from "../core/time.js";
+import type {
+  LevelName,
+  LogEntry,
+  SerializeLimits,
+  TimestampFormat,
+  Transport,
+} from "../core/types.js";
 
 export interface BrowserJsonStreamTransportOptions {
   /**
@@ -14,12 +22,16 @@ export interface BrowserJsonStreamTransportOptions {
    */
   stream: WritableStream<string>;
   /** Per-transport level filter */
-  level?: LogLevelName;
+  level?: LevelName;
   /**
    * Custom serializer. Return the string to write.
-   * Default: JSON.stringify(entry) + '\n'
+   * Default: safeStringify(entry) + '\n'
    */
   serializer?: (entry: LogEntry) => string;
+  /** How `timestamp` is written (default: 'epoch-ms') */
+  timestampFormat?: TimestampFormat;
+  /** Depth, array-length and string-length limits for the JSON output */
+  serializeLimits?: SerializeLimits;
 }
 
 /**
@@ -31,8 +43,11 @@ export function browserJsonStreamTransport(
   const stream = options.stream;
   const writer = stream.getWriter();
 
+  const { timestampFormat, serializeLimits } = options;
   const serialize =
-    options.serializer ?? ((entry: LogEntry) => `${JSON.stringify(entry)}\n`);
+    options.serializer ??
+    ((entry: LogEntry) =>
+      `${safeStringify(withTimestampFormat(entry, timestampFormat), serializeLimits)}\n`);
 
   return {
     name: "browser-stream",
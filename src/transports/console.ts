@@ -13,16 +13,20 @@
  * ```
  */
 
+import { safeStringify } from "../core/serialize.js";
+import { withTimestampFormat } from "../core/time.js";
 import {
+  type LevelName,
   type LogEntry,
   LogLevel,
-  type LogLevelName,
+  type SerializeLimits,
+  type TimestampFormat,
   type Transport,
 } from "../core/types.js";
 
 export interface ConsoleTransportOptions {
   /** Per-transport level filter */
-  level?: LogLevelName;
+  level?: LevelName;
   /**
    * Use appropriate console method per level (console.warn, console.error, etc.).
    * Default: true
@@ -33,6 +37,10 @@ export interface ConsoleTransportOptions {
    * Default: serializes to JSON string.
    */
   formatter?: (entry: LogEntry) => unknown;
+  /** How `timestamp` is written by the default formatter (default: 'epoch-ms') */
+  timestampFormat?: TimestampFormat;
+  /** Depth, array-length and string-length limits for the JSON output */
+  serializeLimits?: SerializeLimits;
 }
 
 /**
@@ -42,8 +50,14 @@ export function consoleTransport(
   options: ConsoleTransportOptions = {},
 ): Transport {
   const useConsoleLevels = options.useConsoleLevels ?? true;
+  const { timestampFormat, serializeLimits } = options;
   const formatter =
-    options.formatter ?? ((entry: LogEntry) => JSON.stringify(entry));
+    options.formatter ??
+    ((entry: LogEntry) =>
+      safeStringify(
+        withTimestampFormat(entry, timestampFormat),
+        serializeLimits,
+      ));
 
   return {
     name: "console",
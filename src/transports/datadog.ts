@@ -7,7 +7,13 @@
  * > Recommended for server-side use only.
  */
 
-import type { LogLevelName, Transport } from "../core/types.js";
+import { safeStringify } from "../core/serialize.js";
+import type {
+  LevelName,
+  Transport,
+  TransportErrorReporter,
+} from "../core/types.js";
+import { assertHttpOk } from "./http.js";
 
 export interface DatadogTransportOptions {
   /** Datadog API Key */
@@ -23,7 +29,7 @@ export interface DatadogTransportOptions {
   /** Tags (comma separated: env:prod,version:1.0) */
   tags?: string;
   /** Transport level filter */
-  level?: LogLevelName;
+  level?: LevelName;
 }
 
 /**
@@ -42,6 +48,7 @@ export function datadogTransport(options: DatadogTransportOptions): Transport {
     level,
   } = options;
   const url = `https://http-intake.logs.${site}/api/v2/logs`;
+  let report: TransportErrorReporter | undefined;
 
   return {
     name: "datadog",
@@ -59,17 +66,22 @@ export function datadogTransport(options: DatadogTransportOptions): Transport {
       };
 
       try {
-        await fetch(url, {
+        const response = await fetch(url, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
             "DD-API-KEY": apiKey,
           },
-          body: JSON.stringify(payload),
+          body: safeStringify(payload),
         });
+        assertHttpOk(response, "datadog");
       } catch (err) {
-        console.error("[voltlog] Datadog push failed", err);
+        if (!report?.(err, [entry]))
+          console.error("[voltlog] Datadog push failed", err);
       }
     },
+    setErrorReporter(reporter) {
+      report = reporter;
+    },
   };
 }
@@ -7,17 +7,27 @@
  * > Recommended for server-side use only.
  */
 
-import type { LogEntry, LogLevelName, Transport } from "../core/types.js";
+import { levelStyle } from "../core/levels.js";
+import { safeStringify } from "../core/serialize.js";
+import type {
+  LevelName,
+  LogEntry,
+  Transport,
+  TransportErrorReporter,
+} from "../core/types.js";
+import { postEntry } from "./http.js";
 
 export interface DiscordTransportOptions {
   /** Discord Webhook URL */
   webhookUrl: string;
   /** Minimum log level (default: ERROR) */
-  level?: LogLevelName;
+  level?: LevelName;
   /** Username override */
   username?: string;
   /** Avatar URL override */
   avatarUrl?: string;
+  /** Embed colors (decimal RGB) by level name, e.g. `{ SECURITY: 9109504 }` */
+  levelColors?: Record<string, number>;
 }
 
 /**
@@ -25,23 +35,29 @@ export interface DiscordTransportOptions {
  * Best used for Alerts/Errors.
  */
 export function discordTransport(options: DiscordTransportOptions): Transport {
-  const { webhookUrl, username, avatarUrl, level = "ERROR" } = options;
+  const {
+    webhookUrl,
+    username,
+    avatarUrl,
+    level = "ERROR",
+    levelColors,
+  } = options;
+  let report: TransportErrorReporter | undefined;
 
   return {
     name: "discord",
     level,
-    async write(entry) {
-      try {
-        await fetch(webhookUrl, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(
-            formatDiscordPayload(entry, username, avatarUrl),
-          ),
-        });
-      } catch (_err) {
-        // swallow
-      }
+    write(entry) {
+      return postEntry(
+        webhookUrl,
+        "discord",
+        entry,
+        () => formatDiscordPayload(entry, username, avatarUrl, levelColors),
+        report,
+      );
+    },
+    setErrorReporter(reporter) {
+      report = reporter;
     },
   };
 }
@@ -50,8 +66,9 @@ function formatDiscordPayload(
   entry: LogEntry,
   username?: string,
   avatar_url?: string,
+  levelColors?: Record<string, number>,
 ): Record<string, unknown> {
-  const color = getLevelColor(entry.level);
+  const color = levelStyle(entry, levelColors, getLevelColor);
 
   return {
     username: username || "VoltLog",
@@ -64,7 +81,7 @@ function formatDiscordPayload(
         fields: [
           {
             name: "Meta",
-            value: `\`\`\`json\n${JSON.stringify(entry.meta, null, 2).slice(
+            value: `\`\`\`json\n${safeStringify(entry.meta, { space: 2 }).slice(
               0,
               1000,
             )}\n\`\`\``,
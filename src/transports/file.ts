@@ -8,7 +8,15 @@
 
 import fs from "node:fs";
 import path from "node:path";
-import type { LogEntry, LogLevelName, Transport } from "../core/types.js";
+import { safeStringify } from "../core/serialize.js";
+import { withTimestampFormat } from "../core/time.js";
+import type {
+  LevelName,
+  LogEntry,
+  SerializeLimits,
+  TimestampFormat,
+  Transport,
+} from "../core/types.js";
 
 export interface FileTransportOptions {
   /** Directory to store logs. Created if missing. */
@@ -19,15 +27,21 @@ export interface FileTransportOptions {
    */
   filename?: string;
   /** Per-transport level filter */
-  level?: LogLevelName;
+  level?: LevelName;
+  /** How `timestamp` is written (default: 'epoch-ms') */
+  timestampFormat?: TimestampFormat;
+  /** Depth, array-length and string-length limits for the JSON output */
+  serializeLimits?: SerializeLimits;
 }
 
 /**
  * Creates a file transport that writes newline-delimited JSON.
  * Rotates files daily based on the `%DATE%` pattern.
+ * Each line carries `seq`, so a replay can restore call order for entries
+ * with the same timestamp (`seq` restarts at 1 with each process).
  */
 export function fileTransport(options: FileTransportOptions): Transport {
-  const { dir, level } = options;
+  const { dir, level, timestampFormat, serializeLimits } = options;
   const filenamePattern = options.filename ?? "app-%DATE%.log";
 
   let currentStream: fs.WriteStream | null = null;
@@ -76,7 +90,7 @@ export function fileTransport(options: FileTransportOptions): Transport {
       rotate();
 
       if (currentStream && !currentStream.writableEnded) {
-        const line = `${JSON.stringify(entry)}\n`;
+        const line = `${safeStringify(withTimestampFormat(entry, timestampFormat), serializeLimits)}\n`;
         currentStream.write(line);
       }
     },
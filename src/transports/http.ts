@@ -0,0 +1,91 @@
+/**
+ * @module voltlog-io
+ * @description HTTP helpers shared by the fetch-based transports.
+ * @universal Works in all environments.
+ *
+ * @example Custom transport reporting non-OK responses
+ * ```ts
+ * import { assertHttpOk, createTransport } from 'voltlog-io';
+ *
+ * const api = createTransport('my-api', async (entry) => {
+ *   const res = await fetch('https://api.example.com/logs', {
+ *     method: 'POST',
+ *     body: JSON.stringify(entry),
+ *   });
+ *   assertHttpOk(res, 'my-api'); // rejects → reaches `onTransportError`
+ * });
+ * ```
+ */
+
+import type { LogEntry, TransportErrorReporter } from "../core/types.js";
+
+/** Minimal slice of `Response` needed to check a delivery. */
+export interface HttpResponseLike {
+  ok: boolean;
+  status?: number;
+  statusText?: string;
+}
+
+/**
+ * Raised when a transport's HTTP endpoint answers with a non-2xx status.
+ */
+export class TransportHttpError extends Error {
+  /** Name of the transport that made the request */
+  readonly transport: string;
+  /** HTTP status code (0 if the response did not carry one) */
+  readonly status: number;
+  /** HTTP status text */
+  readonly statusText: string;
+
+  constructor(transport: string, status: number, statusText: string) {
+    super(
+      `[voltlog] ${transport} transport received HTTP ${status}${
+        statusText ? ` ${statusText}` : ""
+      }`,
+    );
+    this.name = "TransportHttpError";
+    this.transport = transport;
+    this.status = status;
+    this.statusText = statusText;
+  }
+}
+
+/**
+ * Throw a `TransportHttpError` when the response is not OK.
+ */
+export function assertHttpOk(
+  response: HttpResponseLike,
+  transport: string,
+): void {
+  if (response.ok) return;
+  throw new TransportHttpError(
+    transport,
+    response.status ?? 0,
+    response.statusText ?? "",
+  );
+}
+
+/**
+ * POST one entry's payload as JSON. Failures — including building the
+ * payload — go to `report` instead of rejecting, so notification
+ * transports never throw into the logger.
+ * @internal
+ */
+export async function postEntry(
+  url: string,
+  transport: string,
+  entry: LogEntry,
+  payload: () => unknown,
+  report: TransportErrorReporter | undefined,
+): Promise<void> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload()),
+    });
+    assertHttpOk(response, transport);
+  } catch (err) {
+    report?.(err, [entry]);
+  }
+}
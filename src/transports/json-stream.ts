@@ -27,18 +27,30 @@
  * ```
  */
 
-import type { LogEntry, LogLevelName, Transport } from "../core/types.js";
+import { safeStringify } from "../core/serialize.js";
+import { withTimestampFormat } from "../core/time.js";
+import type {
+  LevelName,
+  LogEntry,
+  SerializeLimits,
+  TimestampFormat,
+  Transport,
+} from "../core/types.js";
 
 export interface JsonStreamTransportOptions {
   /** Writable stream to output to (e.g. fs.createWriteStream, process.stdout) */
   stream: NodeJS.WritableStream;
   /** Per-transport level filter */
-  level?: LogLevelName;
+  level?: LevelName;
   /**
    * Custom serializer. Return the string to write.
-   * Default: JSON.stringify(entry) + '\n'
+   * Default: safeStringify(entry) + '\n'
    */
   serializer?: (entry: LogEntry) => string;
+  /** How `timestamp` is written (default: 'epoch-ms') */
+  timestampFormat?: TimestampFormat;
+  /** Depth, array-length and string-length limits for the JSON output */
+  serializeLimits?: SerializeLimits;
 }
 
 /**
@@ -48,8 +60,11 @@ export function jsonStreamTransport(
   options: JsonStreamTransportOptions,
 ): Transport {
   const stream = options.stream;
+  const { timestampFormat, serializeLimits } = options;
   const serialize =
-    options.serializer ?? ((entry: LogEntry) => `${JSON.stringify(entry)}\n`);
+    options.serializer ??
+    ((entry: LogEntry) =>
+      `${safeStringify(withTimestampFormat(entry, timestampFormat), serializeLimits)}\n`);
 
   return {
     name: "json-stream",
@@ -7,7 +7,16 @@
  * > Recommended for server-side use.
  */
 
-import type { LogEntry, LogLevelName, Transport } from "../core/types.js";
+import { safeStringify } from "../core/serialize.js";
+import { entryEpochNs } from "../core/time.js";
+import type {
+  LevelName,
+  LogEntry,
+  SerializeLimits,
+  Transport,
+  TransportErrorReporter,
+} from "../core/types.js";
+import { assertHttpOk } from "./http.js";
 
 export interface LokiTransportOptions {
   /** Loki URL (e.g. http://localhost:3100) */
@@ -21,11 +30,13 @@ export interface LokiTransportOptions {
   /** Labels to attach to every stream (e.g. { app: 'volt-server' }) */
   labels?: Record<string, string>;
   /** Transport level filter */
-  level?: LogLevelName;
+  level?: LevelName;
   /** Batch size (default: 10) */
   batchSize?: number;
   /** Batch interval ms (default: 5000) */
   interval?: number;
+  /** Depth, array-length and string-length limits for each log line */
+  serializeLimits?: SerializeLimits;
 }
 
 /**
@@ -33,7 +44,7 @@ export interface LokiTransportOptions {
  * Uses batching to improve performance.
  */
 export function lokiTransport(options: LokiTransportOptions): Transport {
-  const { host, labels = { app: "voltlog" }, level } = options;
+  const { host, labels = { app: "voltlog" }, level, serializeLimits } = options;
   const batchSize = options.batchSize ?? 10;
   const interval = options.interval ?? 5000;
 
@@ -53,34 +64,49 @@ export function lokiTransport(options: LokiTransportOptions): Transport {
 
   let buffer: LogEntry[] = [];
   let timer: ReturnType<typeof setTimeout> | null = null;
+  let report: TransportErrorReporter | undefined;
 
   const flush = async () => {
     if (buffer.length === 0) return;
     const batch = buffer;
     buffer = [];
 
+    // Loki wants nanoseconds — full precision when `hrTimestamps` is on.
+    // It keeps entries in timestamp order; `seq` breaks ties.
+    const ordered = batch
+      .map((e) => ({ e, ns: entryEpochNs(e) }))
+      .sort((a, b) =>
+        a.ns < b.ns ? -1 : a.ns > b.ns ? 1 : (a.e.seq ?? 0) - (b.e.seq ?? 0),
+      );
     const streams = [
       {
         stream: labels,
-        values: batch.map((e) => [
-          String(e.timestamp * 1000000), // Loki wants nanoseconds
-          JSON.stringify({
-            level: e.levelName,
-            message: e.message,
-            ...e.meta,
-          }),
+        values: ordered.map(({ e, ns }) => [
+          ns.toString(),
+          safeStringify(
+            {
+              level: e.levelName,
+              message: e.message,
+              seq: e.seq,
+              ...e.meta,
+            },
+            serializeLimits,
+          ),
         ]),
       },
     ];
 
     try {
-      await fetch(url, {
+      const response = await fetch(url, {
         method: "POST",
         headers,
+        // Lines are already safe strings; limits must not cut them again
         body: JSON.stringify({ streams }),
       });
+      assertHttpOk(response, "loki");
     } catch (err) {
-      console.error("[voltlog] Loki push failed", err);
+      if (!report?.(err, batch))
+        console.error("[voltlog] Loki push failed", err);
     }
   };
 
@@ -101,10 +127,10 @@ export function lokiTransport(options: LokiTransportOptions): Transport {
       if (buffer.length >= batchSize) {
         if (timer) clearTimeout(timer);
         timer = null;
-        flush();
-      } else {
-        schedule();
+        return flush();
       }
+      schedule();
+      return undefined;
     },
     async flush() {
       if (timer) clearTimeout(timer);
@@ -113,5 +139,8 @@ export function lokiTransport(options: LokiTransportOptions): Transport {
     async close() {
       await this.flush?.();
     },
+    setErrorReporter(reporter) {
+      report = reporter;
+    },
   };
 }
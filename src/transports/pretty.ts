@@ -30,21 +30,32 @@
  * ```
  */
 
+import { safeStringify } from "../core/serialize.js";
+import { renderTemplate, templateValues } from "../core/template.js";
+import { formatTimestamp } from "../core/time.js";
 import {
+  type LevelName,
   type LogEntry,
   LogLevel,
-  type LogLevelName,
+  type OcppContext,
   type OcppExchangeMeta,
+  type TimestampFormat,
   type Transport,
 } from "../core/types.js";
 
 export interface PrettyTransportOptions {
   /** Per-transport level filter */
-  level?: LogLevelName;
+  level?: LevelName;
   /** Show timestamps (default: true) */
   timestamps?: boolean;
+  /** Timestamp format (default: ISO-8601 in UTC, e.g. `2024-01-15T10:30:00.000Z`) */
+  timestampFormat?: TimestampFormat;
   /** Use colors in output (default: true) */
   colors?: boolean;
+  /** ANSI colors for custom levels, keyed by level name (e.g. `{ AUDIT: '\x1b[34m' }`) */
+  levelColors?: Record<string, string>;
+  /** Icons for custom levels, keyed by level name */
+  levelIcons?: Record<string, string>;
 }
 
 // ─── ANSI Color Codes ────────────────────────────────────────────
@@ -52,6 +63,8 @@ export interface PrettyTransportOptions {
 const RESET = "\x1b[0m";
 const DIM = "\x1b[2m";
 const BOLD = "\x1b[1m";
+/** Values substituted into a message template */
+const VALUE = "\x1b[36m";
 
 const COLORS: Record<string, string> = {
   TRACE: "\x1b[90m", // gray
@@ -71,6 +84,16 @@ const ICONS: Record<string, string> = {
   FATAL: "💀",
 };
 
+/** Built-in level whose style a custom level borrows (nearest at or below it) */
+function baseLevelName(level: number): string {
+  if (level >= LogLevel.FATAL) return "FATAL";
+  if (level >= LogLevel.ERROR) return "ERROR";
+  if (level >= LogLevel.WARN) return "WARN";
+  if (level >= LogLevel.INFO) return "INFO";
+  if (level >= LogLevel.DEBUG) return "DEBUG";
+  return "TRACE";
+}
+
 const EXCHANGE_ICONS: Record<string, string> = {
   CALL: "⚡",
   CALLRESULT: "✔",
@@ -91,18 +114,28 @@ export function prettyTransport(
 ): Transport {
   const showTimestamps = options.timestamps ?? true;
   const useColors = options.colors ?? true;
+  const colors = { ...COLORS, ...options.levelColors };
+  const icons = { ...ICONS, ...options.levelIcons };
 
   function colorize(text: string, color: string): string {
     return useColors ? `${color}${text}${RESET}` : text;
   }
 
+  function formatTime(entry: LogEntry): string {
+    return options.timestampFormat
+      ? String(formatTimestamp(entry, options.timestampFormat))
+      : new Date(entry.timestamp).toISOString();
+  }
+
   function formatExchange(entry: LogEntry): string | null {
     const meta = entry.meta as unknown as OcppExchangeMeta;
     if (!meta || !meta.action || !meta.messageType) return null;
 
     const icon = EXCHANGE_ICONS[meta.messageType] ?? "•";
     const arrow = DIRECTION_ARROWS[meta.direction ?? "IN"] ?? "→";
-    const cpId = meta.chargePointId ?? "unknown";
+    // Bound by `logger.child({ chargePointId })` when not in meta
+    const context = entry.context as Partial<OcppContext> | undefined;
+    const cpId = meta.chargePointId ?? context?.chargePointId ?? "unknown";
     const action = meta.action;
     const msgType = meta.messageType;
     const dir = meta.direction ?? "";
@@ -125,18 +158,27 @@ export function prettyTransport(
   }
 
   function formatStandard(entry: LogEntry): string {
-    const icon = ICONS[entry.levelName] ?? "•";
-    const levelColor = COLORS[entry.levelName] ?? "";
+    const base = baseLevelName(entry.level);
+    const icon = icons[entry.levelName] ?? icons[base] ?? "•";
+    const levelColor = colors[entry.levelName] ?? colors[base] ?? "";
     const level = colorize(entry.levelName.padEnd(5), levelColor);
-    const ts = showTimestamps
-      ? `${colorize(new Date(entry.timestamp).toISOString(), DIM)}  `
-      : "";
+    const ts = showTimestamps ? `${colorize(formatTime(entry), DIM)}  ` : "";
+
+    const ns = entry.namespace ? `${colorize(entry.namespace, BOLD)}  ` : "";
+
+    // Re-render the template so substituted values stand out
+    const message =
+      useColors && entry.messageTemplate !== undefined
+        ? renderTemplate(entry.messageTemplate, templateValues(entry), (text) =>
+            colorize(text, VALUE),
+          )
+        : entry.message;
 
-    let line = `${icon} ${ts}${level}  ${entry.message}`;
+    let line = `${icon} ${ts}${level}  ${ns}${message}`;
 
     // Add context
     if (entry.context && Object.keys(entry.context).length > 0) {
-      line += `  ${colorize(JSON.stringify(entry.context), DIM)}`;
+      line += `  ${colorize(safeStringify(entry.context), DIM)}`;
     }
 
     // Add meta (only non-OCPP fields or all if no exchange)
@@ -144,18 +186,22 @@ export function prettyTransport(
       entry.meta &&
       Object.keys(entry.meta as Record<string, unknown>).length > 0
     ) {
-      line += `  ${colorize(JSON.stringify(entry.meta), DIM)}`;
+      line += `  ${colorize(safeStringify(entry.meta), DIM)}`;
     }
 
-    // Add error
-    if (entry.error) {
+    // Add error, then its cause chain
+    let error = entry.error;
+    let prefix = "";
+    while (error) {
       line += `\n  ${colorize(
-        `${entry.error.name ?? "Error"}: ${entry.error.message}`,
+        `${prefix}${error.name ?? "Error"}: ${error.message}`,
         COLORS.ERROR ?? "",
       )}`;
-      if (entry.error.stack) {
-        line += `\n${colorize(entry.error.stack, DIM)}`;
+      if (error.stack) {
+        line += `\n${colorize(error.stack, DIM)}`;
       }
+      error = error.cause;
+      prefix = "Caused by: ";
     }
 
     return line;
@@ -0,0 +1,253 @@
+/**
+ * @module voltlog-io
+ * @description Queue transformer — bounds the entries waiting on a slow transport.
+ * @universal Works in all environments.
+ *
+ * Writes are delivered one at a time; while an async write is pending, new
+ * entries wait in a queue of at most `maxQueued`. Once full, the drop policy
+ * decides what to give up. After the backlog drains, a WARN entry reporting
+ * how many entries were dropped is written to the transport.
+ *
+ * @example
+ * ```ts
+ * import { createLogger, queueTransport, lokiTransport } from 'voltlog-io';
+ *
+ * const logger = createLogger({
+ *   transports: [
+ *     queueTransport(lokiTransport({ host: 'http://loki:3100' }), {
+ *       maxQueued: 5000,
+ *       dropPolicy: 'drop-below-level',
+ *       dropBelowLevel: 'WARN',
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+
+import { createId } from "@paralleldrive/cuid2";
+import { nextSeq } from "../core/ids.js";
+import { resolveLevel } from "../core/levels.js";
+import {
+  type EntryFactory,
+  type LevelName,
+  type LogEntry,
+  LogLevel,
+  type Transport,
+  type TransportErrorReporter,
+} from "../core/types.js";
+
+/**
+ * What to do when the queue is full:
+ * - `drop-oldest` — discard the oldest queued entry (default)
+ * - `drop-newest` — discard the incoming entry
+ * - `drop-below-level` — discard entries below `dropBelowLevel`, oldest
+ *   first; falls back to `drop-oldest` if every queued entry is above it
+ * - `block-on-flush` — ask the transport to `flush()` and hold up to
+ *   `maxWaiting` new entries back until the queue has room; past that, new
+ *   entries are dropped. `write()` returns a promise that settles once the
+ *   entry is queued, but the logger doesn't wait for it.
+ */
+export type DropPolicy =
+  | "drop-oldest"
+  | "drop-newest"
+  | "drop-below-level"
+  | "block-on-flush";
+
+export interface QueueTransportOptions {
+  /** Max entries waiting for delivery (default: 1000) */
+  maxQueued?: number;
+  /** Drop policy once `maxQueued` is reached (default: 'drop-oldest') */
+  dropPolicy?: DropPolicy;
+  /**
+   * Max entries `block-on-flush` holds back while the queue is full
+   * (default: `maxQueued`)
+   */
+  maxWaiting?: number;
+  /** Threshold for `drop-below-level` (default: 'WARN') */
+  dropBelowLevel?: LevelName;
+  /** Write a WARN entry with the drop count once the backlog drains (default: true) */
+  reportDrops?: boolean;
+}
+
+export interface QueuedTransport<TMeta = Record<string, unknown>>
+  extends Transport<TMeta> {
+  /** Entries currently waiting for delivery, including held-back ones */
+  readonly queued: number;
+  /** Entries dropped since the last drop report */
+  readonly dropped: number;
+}
+
+/**
+ * Wrap any transport with a bounded delivery queue.
+ */
+export function queueTransport<TMeta = Record<string, unknown>>(
+  inner: Transport<TMeta>,
+  options: QueueTransportOptions = {},
+): QueuedTransport<TMeta> {
+  const maxQueued = Math.max(1, options.maxQueued ?? 1000);
+  const dropPolicy = options.dropPolicy ?? "drop-oldest";
+  const maxWaiting = Math.max(0, options.maxWaiting ?? maxQueued);
+  const dropBelow = resolveLevel(options.dropBelowLevel ?? "WARN");
+  const reportDrops = options.reportDrops ?? true;
+
+  const queue: LogEntry<TMeta>[] = [];
+  let dropped = 0;
+  let inFlight: Promise<void> | null = null;
+  let flushing: Promise<void> | null = null;
+  let idle: Array<() => void> = [];
+  /** `block-on-flush` entries waiting for room, in arrival order */
+  const waiting: Array<() => void> = [];
+  let report: TransportErrorReporter<TMeta> | undefined;
+  let createEntry: EntryFactory<TMeta> | undefined;
+
+  /** Make room for `entry`; returns false if it should be dropped instead */
+  function makeRoom(entry: LogEntry<TMeta>): boolean {
+    switch (dropPolicy) {
+      case "drop-newest":
+        dropped++;
+        return false;
+      case "drop-below-level": {
+        if (entry.level < dropBelow) {
+          dropped++;
+          return false;
+        }
+        const i = queue.findIndex((e) => e.level < dropBelow);
+        queue.splice(i === -1 ? 0 : i, 1);
+        dropped++;
+        return true;
+      }
+      default:
+        queue.shift();
+        dropped++;
+        return true;
+    }
+  }
+
+  /** Hold `entry` back until our own drain makes room for it */
+  function waitForRoom(entry: LogEntry<TMeta>): Promise<void> {
+    // Batching transports send sooner when asked, which frees room faster
+    flushing ??= Promise.resolve(inner.flush?.())
+      .catch(() => {})
+      .finally(() => {
+        flushing = null;
+      });
+    return new Promise((resolve) => {
+      waiting.push(() => {
+        queue.push(entry);
+        resolve();
+      });
+    });
+  }
+
+  function admitWaiting(): void {
+    while (waiting.length > 0 && queue.length < maxQueued) waiting.shift()?.();
+  }
+
+  function deliver(entry: LogEntry<TMeta>): Promise<void> | undefined {
+    try {
+      const result = inner.write(entry);
+      if (result && typeof (result as Promise<void>).then === "function") {
+        return (result as Promise<void>).catch((err) => {
+          report?.(err, [entry]);
+        });
+      }
+    } catch (err) {
+      /* Swallowed unless a reporter is bound */
+      report?.(err, [entry]);
+    }
+    return undefined;
+  }
+
+  function dropReport(): LogEntry<TMeta> {
+    const count = dropped;
+    dropped = 0;
+    const message = `[voltlog] Dropped ${count} entries while ${inner.name} was backed up`;
+    const meta = { droppedCount: count, transport: inner.name } as TMeta;
+    if (createEntry) return createEntry("WARN", message, meta);
+    // Not attached to a logger
+    return {
+      id: createId(),
+      seq: nextSeq(),
+      level: LogLevel.WARN,
+      levelName: "WARN",
+      message,
+      timestamp: Date.now(),
+      meta,
+    };
+  }
+
+  /** Deliver queued entries until an async write makes us wait */
+  function drain(): void {
+    while (!inFlight) {
+      let entry = queue.shift();
+      admitWaiting();
+      if (!entry) {
+        if (dropped > 0 && reportDrops) entry = dropReport();
+        else break;
+      }
+      const pending = deliver(entry);
+      if (pending) {
+        inFlight = pending.then(() => {
+          inFlight = null;
+          drain();
+        });
+      }
+    }
+    if (!inFlight && queue.length === 0) {
+      const waiters = idle;
+      idle = [];
+      for (const resolve of waiters) resolve();
+    }
+  }
+
+  function whenIdle(): Promise<void> {
+    if (!inFlight && queue.length === 0) return Promise.resolve();
+    return new Promise((resolve) => idle.push(resolve));
+  }
+
+  return {
+    name: inner.name,
+    level: inner.level,
+    filter: inner.filter?.bind(inner),
+    mutable: inner.mutable,
+    middleware: inner.middleware,
+    get queued() {
+      return queue.length + waiting.length;
+    },
+    get dropped() {
+      return dropped;
+    },
+    write(entry): void | Promise<void> {
+      if (dropPolicy === "block-on-flush") {
+        // Behind earlier waiters too, so entries keep their order
+        if (queue.length >= maxQueued || waiting.length > 0) {
+          if (waiting.length < maxWaiting) return waitForRoom(entry);
+          dropped++;
+          return undefined;
+        }
+      } else if (queue.length >= maxQueued && !makeRoom(entry)) {
+        return undefined;
+      }
+      queue.push(entry);
+      drain();
+      return undefined;
+    },
+    async flush(): Promise<void> {
+      await whenIdle();
+      await flushing;
+      await inner.flush?.();
+    },
+    async close(): Promise<void> {
+      await this.flush?.();
+      await inner.close?.();
+    },
+    setErrorReporter(reporter) {
+      report = reporter;
+      inner.setErrorReporter?.(reporter);
+    },
+    setEntryFactory(factory) {
+      createEntry = factory;
+      inner.setEntryFactory?.(factory);
+    },
+  };
+}
@@ -51,7 +51,13 @@
  * ```
  */
 
-import type { LogEntry, LogLevelName, Transport } from "../core/types.js";
+import { safeStringify } from "../core/serialize.js";
+import type {
+  LevelName,
+  LogEntry,
+  SerializeLimits,
+  Transport,
+} from "../core/types.js";
 
 /**
  * Minimal interface for the Redis client methods we need.
@@ -74,12 +80,14 @@ export interface RedisTransportOptions {
    */
   maxLen?: number;
   /** Per-transport level filter */
-  level?: LogLevelName;
+  level?: LevelName;
   /**
    * Custom field mapper — convert LogEntry to flat key-value pairs for Redis.
    * Default: serializes the entire entry as JSON under a single 'data' field.
    */
   fieldMapper?: (entry: LogEntry) => Record<string, string>;
+  /** Depth, array-length and string-length limits for the default `data` field */
+  serializeLimits?: SerializeLimits;
 }
 
 /**
@@ -89,23 +97,34 @@ export interface RedisTransportOptions {
  * Fire-and-forget — errors are silently swallowed to avoid blocking.
  */
 export function redisTransport(options: RedisTransportOptions): Transport {
-  const { client, streamKey = "logs", maxLen, level } = options;
+  const {
+    client,
+    streamKey = "logs",
+    maxLen,
+    level,
+    serializeLimits,
+  } = options;
 
   const fieldMapper = options.fieldMapper ?? defaultFieldMapper;
 
   function defaultFieldMapper(entry: LogEntry): Record<string, string> {
     return {
       id: entry.id,
+      // Orders entries whose timestamps collide
+      ...(entry.seq !== undefined && { seq: String(entry.seq) }),
       level: String(entry.level),
       levelName: entry.levelName,
       message: entry.message,
       timestamp: String(entry.timestamp),
-      data: JSON.stringify({
-        meta: entry.meta,
-        context: entry.context,
-        correlationId: entry.correlationId,
-        error: entry.error,
-      }),
+      data: safeStringify(
+        {
+          meta: entry.meta,
+          context: entry.context,
+          correlationId: entry.correlationId,
+          error: entry.error,
+        },
+        serializeLimits,
+      ),
     };
   }
 
@@ -0,0 +1,128 @@
+/**
+ * @module voltlog-io
+ * @description Router transformer — sends each entry to the transports of the first matching route.
+ * @universal Works in all environments.
+ *
+ * @example
+ * ```ts
+ * import { createLogger, routerTransport, fileTransport, slackTransport } from 'voltlog-io';
+ *
+ * const testFile = fileTransport({ dir: './logs/test' });
+ * const auditFile = fileTransport({ dir: './logs/audit' });
+ * const slack = slackTransport({ webhookUrl });
+ * const main = fileTransport({ dir: './logs' });
+ *
+ * const logger = createLogger({
+ *   transports: [
+ *     routerTransport({
+ *       routes: [
+ *         {
+ *           match: (e) => String(e.context?.chargePointId ?? '').startsWith('TEST-'),
+ *           transports: [testFile],
+ *         },
+ *         { match: (e) => e.exchange?.messageType === 'CALLERROR', transports: [slack, main] },
+ *         { match: (e) => e.namespace === 'billing', transports: [auditFile] },
+ *       ],
+ *       fallback: [main],
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+
+import { chainTransport, fanOutToTransports } from "../core/pipeline.js";
+import type {
+  LogEntry,
+  Transport,
+  TransportErrorReporter,
+} from "../core/types.js";
+
+export interface Route<TMeta = Record<string, unknown>> {
+  /** Return true to send the entry to this route's transports */
+  match: (entry: LogEntry<TMeta>) => boolean;
+  transports: Transport<TMeta>[];
+}
+
+export interface RouterTransportOptions<TMeta = Record<string, unknown>> {
+  /** Checked in order */
+  routes: Route<TMeta>[];
+  /** Transports for entries no route matched (default: none — entry is dropped) */
+  fallback?: Transport<TMeta>[];
+  /**
+   * `'first'` — only the first matching route receives the entry (default).
+   * `'all'` — every matching route does.
+   */
+  mode?: "first" | "all";
+  /** Transport name (default: 'router') */
+  name?: string;
+}
+
+/**
+ * Route entries to different transports by predicate. Each target still
+ * applies its own `level`, `filter` and `middleware`. A throwing `match`
+ * counts as no match and is reported as a failure of the router.
+ */
+export function routerTransport<TMeta = Record<string, unknown>>(
+  options: RouterTransportOptions<TMeta>,
+): Transport<TMeta> {
+  const mode = options.mode ?? "first";
+  let report: TransportErrorReporter<TMeta> | undefined;
+
+  const reportError = (err: unknown, entry: LogEntry<TMeta>) =>
+    report?.(err, [entry]);
+  // Targets with their own middleware get a chain, as in the logger
+  const chain = (t: Transport<TMeta>) =>
+    chainTransport(t, {}, (err, _t, entry) => reportError(err, entry));
+
+  const fallback = (options.fallback ?? []).map(chain);
+  const routes = options.routes.map((route) => ({
+    match: route.match,
+    transports: route.transports.map(chain),
+  }));
+  const targets = [
+    ...new Set([...routes.flatMap((r) => r.transports), ...fallback]),
+  ];
+  const originals = [
+    ...new Set([
+      ...options.routes.flatMap((r) => r.transports),
+      ...(options.fallback ?? []),
+    ]),
+  ];
+  function select(entry: LogEntry<TMeta>): Transport<TMeta>[] {
+    const selected = new Set<Transport<TMeta>>();
+    for (const route of routes) {
+      let matched = false;
+      try {
+        matched = route.match(entry);
+      } catch (err) {
+        reportError(err, entry);
+      }
+      if (!matched) continue;
+      for (const t of route.transports) selected.add(t);
+      if (mode === "first") break;
+    }
+    return selected.size > 0 ? [...selected] : fallback;
+  }
+
+  return {
+    name: options.name ?? "router",
+    write(entry) {
+      fanOutToTransports(entry, select(entry), -Infinity, (err, _t, e) =>
+        reportError(err, e),
+      );
+    },
+    async flush() {
+      await Promise.all(targets.map((t) => t.flush?.()));
+    },
+    async close() {
+      await Promise.all(targets.map((t) => t.close?.()));
+    },
+    setErrorReporter(reporter) {
+      report = reporter;
+      for (const t of originals) t.setErrorReporter?.(reporter);
+    },
+    setEntryFactory(factory) {
+      for (const t of originals) t.setEntryFactory?.(factory);
+    },
+  };
+}
@@ -4,7 +4,7 @@
  * @universal Works in both Server and Browser (depends on provided Sentry instance).
  */
 
-import type { LogLevelName, Transport } from "../core/types.js";
+import type { LevelName, Transport } from "../core/types.js";
 
 /**
  * Minimal Sentry client interface to avoid hard dependency on @sentry/* packages.
@@ -21,9 +21,9 @@ export interface SentryTransportOptions {
   /** Configured Sentry instance/hub */
   sentry: SentryInstance;
   /** Minimum level to trigger captureException (default: ERROR) */
-  errorLevel?: LogLevelName;
+  errorLevel?: LevelName;
   /** Minimum level to send breadcrumbs (default: INFO) */
-  breadcrumbLevel?: LogLevelName;
+  breadcrumbLevel?: LevelName;
 }
 
 import { resolveLevel } from "../core/levels.js";
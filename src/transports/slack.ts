@@ -8,17 +8,29 @@
  * Best used with a filter (e.g. ERROR only) or alert middleware.
  */
 
-import type { LogEntry, LogLevelName, Transport } from "../core/types.js";
+import { levelStyle } from "../core/levels.js";
+import { safeStringify } from "../core/serialize.js";
+import type {
+  LevelName,
+  LogEntry,
+  Transport,
+  TransportErrorReporter,
+} from "../core/types.js";
+import { postEntry } from "./http.js";
 
 export interface SlackTransportOptions {
   /** Slack Incoming Webhook URL */
   webhookUrl: string;
   /** Filter level (default: ERROR) */
-  level?: LogLevelName;
+  level?: LevelName;
   /** Custom username (overrides webhook default) */
   username?: string;
   /** Custom icon emoji (overrides webhook default) */
   iconEmoji?: string;
+  /** Attachment colors by level name, e.g. `{ SECURITY: '#8b0000' }` */
+  levelColors?: Record<string, string>;
+  /** Header emojis by level name, e.g. `{ AUDIT: '📋' }` */
+  levelEmojis?: Record<string, string>;
 }
 
 /**
@@ -26,27 +38,28 @@ export interface SlackTransportOptions {
  * Best suited for ERROR/FATAL logs or specific alerts.
  */
 export function slackTransport(options: SlackTransportOptions): Transport {
-  const { webhookUrl, username, iconEmoji, level } = options;
+  const { webhookUrl, username, iconEmoji, level, levelColors, levelEmojis } =
+    options;
+  let report: TransportErrorReporter | undefined;
 
   return {
     name: "slack",
     level: level ?? "ERROR", // Default to ERROR to prevent spamming
-    async write(entry: LogEntry): Promise<void> {
-      try {
-        const payload = formatSlackMessage(entry, username, iconEmoji);
-        const response = await fetch(webhookUrl, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
-        });
-
-        if (!response.ok) {
-          // We don't want to throw and crash the logger, just console.error
-          // console.error(`[voltlog] Slack transport failed: ${response.statusText}`);
-        }
-      } catch (_err) {
-        // console.error(`[voltlog] Slack transport error`, err);
-      }
+    write(entry: LogEntry): Promise<void> {
+      return postEntry(
+        webhookUrl,
+        "slack",
+        entry,
+        () =>
+          formatSlackMessage(entry, username, iconEmoji, {
+            colors: levelColors,
+            emojis: levelEmojis,
+          }),
+        report,
+      );
+    },
+    setErrorReporter(reporter) {
+      report = reporter;
     },
   };
 }
@@ -55,9 +68,13 @@ function formatSlackMessage(
   entry: LogEntry,
   username?: string,
   icon_emoji?: string,
+  styles: {
+    colors?: Record<string, string>;
+    emojis?: Record<string, string>;
+  } = {},
 ): Record<string, unknown> {
-  const levelEmoji = getLevelEmoji(entry.level);
-  const color = getLevelColor(entry.level);
+  const levelEmoji = levelStyle(entry, styles.emojis, getLevelEmoji);
+  const color = levelStyle(entry, styles.colors, getLevelColor);
 
   const blocks = [
     {
@@ -98,7 +115,7 @@ function formatSlackMessage(
       type: "section",
       text: {
         type: "mrkdwn",
-        text: `*Metadata:*\n\`\`\`${JSON.stringify(entry.meta, null, 2)}\`\`\``,
+        text: `*Metadata:*\n\`\`\`${safeStringify(entry.meta, { space: 2 })}\`\`\``,
         emoji: true,
       },
     });
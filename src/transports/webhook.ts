@@ -21,7 +21,15 @@
  * ```
  */
 
-import type { LogEntry, LogLevelName, Transport } from "../core/types.js";
+import { safeStringify } from "../core/serialize.js";
+import type {
+  LevelName,
+  LogEntry,
+  SerializeLimits,
+  Transport,
+  TransportErrorReporter,
+} from "../core/types.js";
+import { assertHttpOk } from "./http.js";
 
 export interface WebhookTransportOptions {
   /** Target URL to POST log entries to */
@@ -35,13 +43,15 @@ export interface WebhookTransportOptions {
   /** Max time in ms to wait before flushing a partial batch (default: 5000) */
   flushIntervalMs?: number;
   /** Per-transport level filter */
-  level?: LogLevelName;
-  /** Custom body serializer. Default: JSON.stringify({ entries: [...] }) */
+  level?: LevelName;
+  /** Custom body serializer. Default: `{ entries: [...], count, timestamp }` as JSON */
   serializer?: (entries: LogEntry[]) => string;
   /** Retry failed requests (default: false) */
   retry?: boolean;
   /** Max retries (default: 3) */
   maxRetries?: number;
+  /** Depth, array-length and string-length limits applied to each entry by the default serializer */
+  serializeLimits?: SerializeLimits;
 }
 
 /**
@@ -56,19 +66,20 @@ export function webhookTransport(options: WebhookTransportOptions): Transport {
     flushIntervalMs = 5000,
     retry = false,
     maxRetries = 3,
+    serializeLimits,
   } = options;
 
   const serialize =
     options.serializer ??
-    ((entries: LogEntry[]) =>
-      JSON.stringify({
-        entries,
-        count: entries.length,
-        timestamp: Date.now(),
-      }));
+    ((entries: LogEntry[]) => {
+      // Limits apply per entry; `maxArrayLength` must not cut the batch
+      const items = entries.map((e) => safeStringify(e, serializeLimits));
+      return `{"entries":[${items.join(",")}],"count":${entries.length},"timestamp":${Date.now()}}`;
+    });
 
   let buffer: LogEntry[] = [];
   let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let report: TransportErrorReporter | undefined;
 
   async function sendBatch(entries: LogEntry[], attempt = 0): Promise<void> {
     try {
@@ -80,20 +91,16 @@ export function webhookTransport(options: WebhookTransportOptions): Transport {
         },
         body: serialize(entries),
       });
-
-      if (!response.ok && retry && attempt < maxRetries) {
-        // Exponential backoff retry
-        const delay = Math.min(1000 * 2 ** attempt, 30000);
-        await new Promise((r) => setTimeout(r, delay));
-        return sendBatch(entries, attempt + 1);
-      }
-    } catch {
+      assertHttpOk(response, "webhook");
+    } catch (err) {
       if (retry && attempt < maxRetries) {
+        // Exponential backoff retry
         const delay = Math.min(1000 * 2 ** attempt, 30000);
         await new Promise((r) => setTimeout(r, delay));
         return sendBatch(entries, attempt + 1);
       }
-      /* Final failure — swallowed to avoid crashing the app */
+      /* Final failure — reported if bound, never thrown into the app */
+      report?.(err, entries);
     }
   }
 
@@ -105,25 +112,25 @@ export function webhookTransport(options: WebhookTransportOptions): Transport {
     }, flushIntervalMs);
   }
 
-  function doFlush(): void {
-    if (buffer.length === 0) return;
+  function doFlush(): Promise<void> | undefined {
+    if (buffer.length === 0) return undefined;
     const batch = buffer;
     buffer = [];
-    // Fire-and-forget
-    sendBatch(batch).catch(() => {});
+    // Fire-and-forget; the promise never rejects
+    return sendBatch(batch).catch(() => {});
   }
 
   return {
     name: "webhook",
     level: options.level,
-    write(entry: LogEntry): void {
+    write(entry: LogEntry): void | Promise<void> {
       buffer.push(entry);
 
       if (buffer.length >= batchSize) {
-        doFlush();
-      } else {
-        scheduleFlush();
+        return doFlush();
       }
+      scheduleFlush();
+      return undefined;
     },
     async flush(): Promise<void> {
       if (flushTimer) {
@@ -139,5 +146,8 @@ export function webhookTransport(options: WebhookTransportOptions): Transport {
     async close(): Promise<void> {
       await this.flush?.();
     },
+    setErrorReporter(reporter) {
+      report = reporter;
+    },
   };
 }
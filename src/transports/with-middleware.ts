@@ -0,0 +1,45 @@
+/**
+ * @module voltlog-io
+ * @description Per-transport middleware — treat each destination differently.
+ * @universal Works in all environments.
+ *
+ * The logger runs a transport's `middleware` after the global pipeline, on
+ * its own copy of the entry, so one destination's chain can't affect another.
+ *
+ * @example
+ * ```ts
+ * import {
+ *   createLogger, fileTransport, datadogTransport, slackTransport,
+ *   redactionMiddleware, withMiddleware,
+ * } from 'voltlog-io';
+ *
+ * const logger = createLogger({
+ *   transports: [
+ *     fileTransport({ dir: './logs' }), // full payloads
+ *     withMiddleware(datadogTransport({ apiKey }), [
+ *       redactionMiddleware({ paths: ['idTag', 'password'] }),
+ *     ]),
+ *     withMiddleware(slackTransport({ webhookUrl }), [
+ *       (entry, next) => next({ ...entry, meta: {} }), // summary only
+ *     ]),
+ *   ],
+ * });
+ * ```
+ */
+
+import type { LogMiddleware, Transport } from "../core/types.js";
+
+/**
+ * Return a transport that runs `middleware` before `transport` receives
+ * an entry. Appends to any middleware the transport already declares;
+ * the original transport is left untouched.
+ */
+export function withMiddleware<TMeta = Record<string, unknown>>(
+  transport: Transport<TMeta>,
+  middleware: LogMiddleware<TMeta>[],
+): Transport<TMeta> {
+  // Delegate through the prototype so getters (e.g. `queued`) stay live
+  const wrapped: Transport<TMeta> = Object.create(transport);
+  wrapped.middleware = [...(transport.middleware ?? []), ...middleware];
+  return wrapped;
+}
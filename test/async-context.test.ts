@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  correlationIdMiddleware,
+  createLogger,
+  getContext,
+  hasAsyncContext,
+  type LogEntry,
+  runWithContext,
+  type Transport,
+} from "../src/index.js";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("Async Context", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+  });
+
+  it("should use AsyncLocalStorage on Node.js", () => {
+    expect(hasAsyncContext).toBe(true);
+  });
+
+  it("should use AsyncLocalStorage without process.getBuiltinModule", async () => {
+    // Node.js 18 and 20 before 20.16 don't have it
+    const original = process.getBuiltinModule;
+    (process as { getBuiltinModule?: unknown }).getBuiltinModule = undefined;
+    try {
+      vi.resetModules();
+      const context = await import("../src/core/context.js");
+
+      expect(context.hasAsyncContext).toBe(true);
+      await context.runWithContext({ correlationId: "req-1" }, async () => {
+        await delay(1);
+        expect(context.getContext()).toEqual({ correlationId: "req-1" });
+      });
+    } finally {
+      process.getBuiltinModule = original;
+    }
+  });
+
+  it("should merge ambient context into entries", () => {
+    const logger = createLogger({ transports: [testTransport] });
+
+    logger.runWithContext({ chargePointId: "CP-101" }, () => {
+      logger.info("inside");
+    });
+    logger.info("outside");
+
+    expect(entries[0]!.context).toEqual({ chargePointId: "CP-101" });
+    expect(entries[1]!.context).toBeUndefined();
+  });
+
+  it("should survive await", async () => {
+    const logger = createLogger({ transports: [testTransport] });
+
+    await logger.runWithContext({ correlationId: "req-1" }, async () => {
+      await delay(1);
+      logger.info("after await");
+    });
+
+    expect(entries[0]!.context).toEqual({ correlationId: "req-1" });
+  });
+
+  it("should isolate concurrent contexts", async () => {
+    const logger = createLogger({ transports: [testTransport] });
+    const handle = (id: string, ms: number) =>
+      logger.runWithContext({ correlationId: id }, async () => {
+        await delay(ms);
+        logger.info(id);
+      });
+
+    await Promise.all([handle("a", 5), handle("b", 1)]);
+
+    for (const entry of entries) {
+      expect(entry.context!.correlationId).toBe(entry.message);
+    }
+  });
+
+  it("should merge nested contexts", () => {
+    runWithContext({ correlationId: "req-1", chargePointId: "CP-1" }, () => {
+      runWithContext({ chargePointId: "CP-2" }, () => {
+        expect(getContext()).toEqual({
+          correlationId: "req-1",
+          chargePointId: "CP-2",
+        });
+      });
+    });
+    expect(getContext()).toBeUndefined();
+  });
+
+  it("should let bound child context win over ambient context", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    const child = logger.child({ chargePointId: "CP-bound" });
+
+    child.runWithContext({ chargePointId: "CP-ambient", session: "s1" }, () => {
+      child.info("test");
+    });
+
+    expect(entries[0]!.context).toEqual({
+      chargePointId: "CP-bound",
+      session: "s1",
+    });
+  });
+
+  it("should return the result of fn", () => {
+    const logger = createLogger();
+    expect(logger.runWithContext({}, () => 42)).toBe(42);
+  });
+
+  describe("correlationIdMiddleware", () => {
+    it("should use the ambient correlation ID", () => {
+      const logger = createLogger({
+        transports: [testTransport],
+        middleware: [correlationIdMiddleware()],
+      });
+
+      logger.runWithContext({ correlationId: "req-42" }, () => {
+        logger.info("test");
+      });
+
+      expect(entries[0]!.correlationId).toBe("req-42");
+    });
+
+    it("should prefer an explicit meta correlation ID", () => {
+      const logger = createLogger({
+        transports: [testTransport],
+        middleware: [correlationIdMiddleware()],
+      });
+
+      logger.runWithContext({ correlationId: "ambient" }, () => {
+        logger.info("test", { correlationId: "explicit" });
+      });
+
+      expect(entries[0]!.correlationId).toBe("explicit");
+    });
+
+    it("should still generate an ID outside any context", () => {
+      const logger = createLogger({
+        transports: [testTransport],
+        middleware: [correlationIdMiddleware({ generator: () => "gen-1" })],
+      });
+      logger.info("test");
+      expect(entries[0]!.correlationId).toBe("gen-1");
+    });
+  });
+});
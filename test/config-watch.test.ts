@@ -0,0 +1,289 @@
+import * as fs from "node:fs";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createLogger,
+  createTransport,
+  type LogEntry,
+  type Logger,
+  registerTransportFactory,
+} from "../src/index.js";
+
+const instances: Array<{ label: string; entries: LogEntry[]; closed: boolean }> =
+  [];
+registerTransportFactory(
+  "watch-memory",
+  (options) => {
+    const instance = {
+      label: String(options.label),
+      entries: [] as LogEntry[],
+      closed: false,
+    };
+    instances.push(instance);
+    return createTransport(
+      `memory:${instance.label}`,
+      (entry) => {
+        instance.entries.push(entry);
+      },
+      {
+        close: () => {
+          instance.closed = true;
+        },
+      },
+    );
+  },
+  { label: { type: "string", required: true } },
+);
+
+const byLabel = (label: string) => instances.filter((i) => i.label === label);
+
+describe("logger.watchConfig", () => {
+  const dir = mkdtempSync(join(tmpdir(), "voltlog-watch-"));
+  let file = "";
+  let count = 0;
+  let logger: Logger;
+  let stop: (() => void) | undefined;
+
+  const write = (config: unknown) =>
+    writeFileSync(file, JSON.stringify(config, null, 2));
+  const messages = (label: string) =>
+    byLabel(label).flatMap((i) => i.entries.map((e) => e.message));
+
+  function watch(config: unknown, options = {}) {
+    file = join(dir, `logging-${++count}.json`);
+    write(config);
+    stop = logger.watchConfig(file, { intervalMs: 10, ...options });
+  }
+
+  afterEach(async () => {
+    stop?.();
+    await logger?.close();
+    instances.length = 0;
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should apply the file immediately", () => {
+    logger = createLogger();
+    watch({
+      level: "WARN",
+      transports: [{ type: "watch-memory", label: "a" }],
+    });
+
+    logger.info("hidden");
+    logger.warn("shown");
+
+    expect(logger.getLevel()).toBe("WARN");
+    expect(messages("a")).toEqual(["shown"]);
+  });
+
+  it("should work without process.getBuiltinModule", () => {
+    // Node.js 18 and 20 before 20.16 don't have it
+    const original = process.getBuiltinModule;
+    (process as { getBuiltinModule?: unknown }).getBuiltinModule = undefined;
+    try {
+      logger = createLogger();
+      watch({ level: "ERROR" });
+      expect(logger.getLevel()).toBe("ERROR");
+    } finally {
+      process.getBuiltinModule = original;
+    }
+  });
+
+  it("should pick up a change made before the watcher's first reading", async () => {
+    // A watcher that never fires and a first stat that lands after the edit
+    const original = process.getBuiltinModule;
+    vi.spyOn(process, "getBuiltinModule").mockImplementation(((id: string) =>
+      id === "node:fs"
+        ? {
+            ...fs,
+            watchFile: () => {},
+            unwatchFile: () => {},
+            stat: (path: string, cb: (...args: unknown[]) => void) =>
+              setTimeout(() => fs.stat(path, cb), 10),
+          }
+        : original(id)) as typeof process.getBuiltinModule);
+
+    try {
+      logger = createLogger();
+      watch({ level: "INFO" });
+      write({ level: "DEBUG" });
+
+      await vi.waitFor(() => expect(logger.getLevel()).toBe("DEBUG"));
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("should throw when the initial file is invalid", () => {
+    logger = createLogger();
+    expect(() => watch({ level: "LOUD" })).toThrowError(
+      'level: expected a level name, got "LOUD"',
+    );
+  });
+
+  it("should reject options that can't change at runtime", () => {
+    logger = createLogger();
+    expect(() => watch({ redact: ["password"] })).toThrowError(
+      "redact: can't be changed at runtime",
+    );
+  });
+
+  it("should swap transports and log the reload with a diff", async () => {
+    logger = createLogger();
+    watch({
+      transports: [
+        { type: "watch-memory", label: "a" },
+        { type: "watch-memory", label: "b" },
+      ],
+    });
+    logger.info("before");
+
+    write({
+      level: "DEBUG",
+      transports: [
+        { type: "watch-memory", label: "b" },
+        { type: "watch-memory", label: "c" },
+      ],
+    });
+
+    await vi.waitFor(() => expect(byLabel("a")[0]!.closed).toBe(true));
+    logger.debug("after");
+
+    expect(messages("a")).toEqual(["before"]);
+    // "b" is unchanged, so the same instance keeps receiving entries
+    expect(byLabel("b")).toHaveLength(1);
+    expect(messages("b")).toEqual([
+      "before",
+      "[voltlog] Config reloaded",
+      "after",
+    ]);
+    expect(messages("c")).toEqual(["[voltlog] Config reloaded", "after"]);
+
+    const reload = byLabel("c")[0]!.entries[0]!;
+    expect(reload.meta).toEqual({
+      path: file,
+      changes: {
+        level: { from: "INFO", to: "DEBUG" },
+        transports: { added: ["watch-memory"], removed: ["watch-memory"] },
+      },
+    });
+  });
+
+  it("should add, replace and remove sampling middleware", async () => {
+    logger = createLogger();
+    logger.addMiddleware((entry, next) => next(entry), "fromCode");
+    watch({
+      transports: [{ type: "watch-memory", label: "a" }],
+    });
+
+    write({
+      transports: [{ type: "watch-memory", label: "a" }],
+      middleware: [{ type: "sampling", maxPerWindow: 100 }],
+    });
+    await vi.waitFor(() =>
+      expect(logger.listMiddleware()).toEqual(["fromCode", "sampling"]),
+    );
+
+    write({
+      transports: [{ type: "watch-memory", label: "a" }],
+      middleware: [{ type: "sampling", maxPerWindow: 1, windowMs: 60_000 }],
+    });
+    await vi.waitFor(() =>
+      expect(
+        messages("a").filter((m) => m === "[voltlog] Config reloaded"),
+      ).toHaveLength(2),
+    );
+    logger.info("sampled");
+    logger.info("sampled");
+    expect(messages("a").filter((m) => m === "sampled")).toHaveLength(1);
+
+    write({ transports: [{ type: "watch-memory", label: "a" }] });
+    await vi.waitFor(() =>
+      expect(logger.listMiddleware()).toEqual(["fromCode"]),
+    );
+
+    const changes = byLabel("a")[0]!.entries
+      .filter((e) => e.message === "[voltlog] Config reloaded")
+      .map((e) => (e.meta.changes as { middleware?: unknown }).middleware);
+    expect(changes).toEqual([
+      { added: ["sampling"], removed: [], changed: [] },
+      { added: [], removed: [], changed: ["sampling"] },
+      { added: [], removed: ["sampling"], changed: [] },
+    ]);
+  });
+
+  it("should keep the previous config when the file becomes invalid", async () => {
+    logger = createLogger();
+    watch({
+      level: "INFO",
+      transports: [{ type: "watch-memory", label: "a" }],
+    });
+
+    writeFileSync(file, "{ not json");
+    await vi.waitFor(() =>
+      expect(messages("a")).toContain("[voltlog] Config reload failed"),
+    );
+
+    expect(logger.getLevel()).toBe("INFO");
+    expect(byLabel("a")[0]!.closed).toBe(false);
+    const failure = byLabel("a")[0]!.entries[0]!;
+    expect(failure.levelName).toBe("ERROR");
+    expect(failure.error?.name).toBe("ConfigValidationError");
+  });
+
+  it("should change nothing when a middleware name is taken in code", async () => {
+    logger = createLogger();
+    logger.addMiddleware((entry, next) => next(entry), "sampling");
+    watch({
+      level: "INFO",
+      transports: [{ type: "watch-memory", label: "a" }],
+    });
+
+    write({
+      level: "DEBUG",
+      transports: [{ type: "watch-memory", label: "b" }],
+      middleware: [{ type: "sampling", maxPerWindow: 1 }],
+    });
+    await vi.waitFor(() =>
+      expect(messages("a")).toContain("[voltlog] Config reload failed"),
+    );
+
+    expect(logger.getLevel()).toBe("INFO");
+    expect(logger.listMiddleware()).toEqual(["sampling"]);
+    expect(byLabel("a")[0]!.closed).toBe(false);
+    expect(byLabel("b")).toEqual([]);
+    const failure = byLabel("a")[0]!.entries.at(-1)!;
+    expect(failure.error?.message).toContain(
+      'middleware[0]: name "sampling" is already used by middleware added in code',
+    );
+  });
+
+  it("should not touch transports added in code", async () => {
+    const own: LogEntry[] = [];
+    logger = createLogger({
+      transports: [createTransport("own", (e) => void own.push(e))],
+    });
+    watch({ transports: [{ type: "watch-memory", label: "a" }] });
+
+    write({ transports: [] });
+    await vi.waitFor(() => expect(byLabel("a")[0]!.closed).toBe(true));
+
+    logger.info("still here");
+    expect(own.map((e) => e.message)).toContain("still here");
+  });
+
+  it("should stop watching when the logger closes", async () => {
+    logger = createLogger();
+    watch({ level: "INFO" });
+    await logger.close();
+
+    write({ level: "ERROR" });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(logger.getLevel()).toBe("INFO");
+  });
+});
@@ -0,0 +1,319 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import {
+  ConfigValidationError,
+  createLoggerFromConfig,
+  createTransport,
+  type LogEntry,
+  listConfigFactories,
+  registerMiddlewareFactory,
+  registerTransportFactory,
+  validateLoggerConfig,
+} from "../src/index.js";
+
+const received: LogEntry[] = [];
+registerTransportFactory(
+  "memory",
+  (options) =>
+    createTransport(
+      String(options.label ?? "memory"),
+      (entry) => {
+        received.push(entry);
+      },
+      { level: options.level as "INFO" | undefined },
+    ),
+  { label: { type: "string" }, level: { type: "level" } },
+);
+
+function issuesOf(config: unknown, env = {}): string[] {
+  try {
+    validateLoggerConfig(config, { env });
+  } catch (err) {
+    expect(err).toBeInstanceOf(ConfigValidationError);
+    return (err as ConfigValidationError).issues;
+  }
+  return [];
+}
+
+describe("createLoggerFromConfig", () => {
+  const dir = mkdtempSync(join(tmpdir(), "voltlog-config-"));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should register built-in factories by name", () => {
+    const { transports, middleware } = listConfigFactories();
+    expect(transports).toEqual(
+      expect.arrayContaining(["console", "pretty", "file", "loki", "webhook"]),
+    );
+    expect(middleware).toEqual(
+      expect.arrayContaining(["redaction", "sampling", "deduplication"]),
+    );
+  });
+
+  it("should build a logger with transports and middleware", async () => {
+    received.length = 0;
+    const logger = createLoggerFromConfig({
+      level: "DEBUG",
+      context: { service: "csms" },
+      transports: [
+        { type: "memory", label: "mem" },
+        { type: "file", dir, enabled: false },
+      ],
+      middleware: [
+        { type: "redaction", paths: ["idToken"] },
+        { type: "sampling", name: "rateLimit", maxPerWindow: 1 },
+      ],
+    });
+
+    expect(logger.getLevel()).toBe("DEBUG");
+    expect(logger.listMiddleware()).toEqual(["redaction", "rateLimit"]);
+
+    logger.debug("Authorize", { idToken: "secret" });
+    logger.debug("Authorize", { idToken: "secret" });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]!.meta.idToken).toBe("[REDACTED]");
+    expect(received[0]!.context).toEqual({ service: "csms" });
+    await logger.close();
+  });
+
+  it("should resolve environment variable references", () => {
+    const config = validateLoggerConfig(
+      {
+        level: "${LOG_LEVEL:-INFO}",
+        transports: [{ type: "loki", host: "http://${LOKI_HOST}:3100" }],
+      },
+      { env: { LOKI_HOST: "loki" } },
+    );
+
+    expect(config.level).toBe("INFO");
+    expect(config.transports![0]!.host).toBe("http://loki:3100");
+  });
+
+  it("should convert environment values to the numbers and booleans the schema expects", () => {
+    const config = validateLoggerConfig(
+      {
+        maxErrorDepth: "${DEPTH}",
+        freezeEntries: "${FREEZE:-false}",
+        includeStack: "${STACK}",
+        transports: [
+          {
+            type: "loki",
+            host: "http://loki",
+            batchSize: "${BATCH}",
+            enabled: "${LOKI_ENABLED}",
+          },
+        ],
+      },
+      {
+        env: {
+          DEPTH: "3",
+          STACK: "warn",
+          BATCH: " 50 ",
+          LOKI_ENABLED: "true",
+        },
+      },
+    );
+
+    expect(config.maxErrorDepth).toBe(3);
+    expect(config.freezeEntries).toBe(false);
+    expect(config.includeStack).toBe("warn");
+    expect(config.transports![0]!.batchSize).toBe(50);
+    expect(config.transports![0]!.enabled).toBe(true);
+  });
+
+  it("should keep literal strings as written", () => {
+    expect(issuesOf({ maxErrorDepth: "3" })).toEqual([
+      'maxErrorDepth: expected number, got "3"',
+    ]);
+  });
+
+  it("should merge defaults for options config can't express", () => {
+    const onTransportError = vi.fn();
+    const logger = createLoggerFromConfig(
+      {
+        transports: [
+          { type: "memory" },
+        ],
+      },
+      {
+        defaults: {
+          onTransportError,
+          transports: [
+            {
+              name: "failing",
+              write: () => {
+                throw new Error("down");
+              },
+            },
+          ],
+        },
+      },
+    );
+
+    logger.info("test");
+    expect(onTransportError).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep the default level when the config sets none", () => {
+    const fromDefaults = createLoggerFromConfig(
+      {},
+      { defaults: { level: "ERROR" } },
+    );
+    expect(fromDefaults.getLevel()).toBe("ERROR");
+
+    const fromConfig = createLoggerFromConfig(
+      { level: "DEBUG" },
+      { defaults: { level: "ERROR" } },
+    );
+    expect(fromConfig.getLevel()).toBe("DEBUG");
+  });
+
+  it("should accept custom levels declared in the same config", () => {
+    const logger = createLoggerFromConfig({
+      levels: { CONFIG_AUDIT: 45 },
+      level: "CONFIG_AUDIT",
+    });
+    expect(logger.getLevel()).toBe("CONFIG_AUDIT");
+  });
+
+  it("should use user-registered middleware factories", () => {
+    received.length = 0;
+    registerMiddlewareFactory(
+      "tag",
+      (options) => (entry, next) =>
+        next({ ...entry, meta: { ...entry.meta, tag: options.value } }),
+      { value: { type: "string", required: true } },
+    );
+
+    const logger = createLoggerFromConfig({
+      transports: [{ type: "memory" }],
+      middleware: [{ type: "tag", value: "cfg" }],
+    });
+    logger.info("test");
+    expect(received[0]!.meta.tag).toBe("cfg");
+  });
+
+  describe("validation", () => {
+    it("should report every problem with its path", () => {
+      const issues = issuesOf({
+        level: "VERBOSE",
+        transports: [
+          { type: "loki", hots: "http://loki" },
+          { type: "file", dir: 42 },
+          { type: "lokki" },
+        ],
+        middleware: [{ type: "sampling", sampleRate: "0.5" }],
+      });
+
+      expect(issues).toEqual([
+        'level: expected a level name, got "VERBOSE"',
+        "transports[0].host: required option is missing",
+        'transports[0].hots: unknown option (did you mean "host"?)',
+        "transports[1].dir: expected string, got number",
+        'transports[2].type: unknown transport "lokki" (did you mean "loki"?)',
+        'middleware[0].sampleRate: expected number, got "0.5"',
+      ]);
+    });
+
+    it("should produce a readable error message", () => {
+      expect(() =>
+        createLoggerFromConfig({ trasnports: [] }),
+      ).toThrowError(
+        '[voltlog] Invalid logger config:\n  - trasnports: unknown option (did you mean "transports"?)',
+      );
+    });
+
+    it("should check enums, arrays and unions", () => {
+      expect(
+        issuesOf({
+          includeStack: "sometimes",
+          exchangeLog: "maybe",
+          redact: ["ok", 1],
+          transports: [{ type: "json-stream", stream: "stdlog" }],
+          middleware: "redaction",
+        }),
+      ).toEqual([
+        "redact: expected string[], got array",
+        'includeStack: expected boolean or a level name, got "sometimes"',
+        'exchangeLog: expected one of "only", got "maybe"',
+        'transports[0].stream: expected one of "stdout", "stderr", got "stdlog"',
+        'middleware: expected array, got "redaction"',
+      ]);
+    });
+
+    it("should report missing environment variables", () => {
+      expect(
+        issuesOf({ transports: [{ type: "loki", host: "${LOKI_HOST}" }] }),
+      ).toEqual(["transports[0].host: environment variable LOKI_HOST is not set"]);
+    });
+
+    it("should report environment values that don't convert", () => {
+      expect(
+        issuesOf(
+          {
+            transports: [
+              {
+                type: "loki",
+                host: "http://loki",
+                batchSize: "${BATCH}",
+                enabled: "${ENABLED}",
+              },
+            ],
+          },
+          { BATCH: "fifty", ENABLED: "yes" },
+        ),
+      ).toEqual([
+        'transports[0].enabled: expected boolean, got "yes"',
+        'transports[0].batchSize: expected number, got "fifty"',
+      ]);
+    });
+
+    it("should report duplicate middleware names", () => {
+      expect(
+        issuesOf({
+          redact: ["password"],
+          middleware: [
+            { type: "sampling", maxPerWindow: 1 },
+            { type: "sampling", maxPerWindow: 5 },
+            { type: "sampling", name: "sampling", enabled: false },
+            { type: "deduplication", name: "redaction" },
+          ],
+        }),
+      ).toEqual([
+        'middleware[1]: name "sampling" is already used by middleware[0]; set a unique name',
+        'middleware[3]: name "redaction" is already used by the redact option',
+      ]);
+    });
+
+    it("should accept repeated middleware types with distinct names", () => {
+      expect(
+        issuesOf({
+          middleware: [
+            { type: "sampling", maxPerWindow: 1 },
+            { type: "sampling", name: "burst", maxPerWindow: 5 },
+          ],
+        }),
+      ).toEqual([]);
+    });
+
+    it("should reject non-object configs", () => {
+      expect(issuesOf("level=INFO")).toEqual([
+        'config: expected object, got "level=INFO"',
+      ]);
+    });
+
+    it("should wrap factory failures with the entry path", () => {
+      registerTransportFactory("broken", () => {
+        throw new Error("cannot connect");
+      });
+      expect(() =>
+        createLoggerFromConfig({ transports: [{ type: "broken" }] }),
+      ).toThrowError("transports[0]: cannot connect");
+    });
+  });
+});
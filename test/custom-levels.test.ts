@@ -0,0 +1,200 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+  vi,
+} from "vitest";
+import {
+  createLogger,
+  discordTransport,
+  type LevelMethod,
+  type LogEntry,
+  LogLevelNameMap,
+  LogLevelValueMap,
+  type PrintfLevelMethod,
+  prettyTransport,
+  registerLevels,
+  resolveLevel,
+  slackTransport,
+  type Transport,
+} from "../src/index.js";
+
+const fetchMock = vi.fn();
+global.fetch = fetchMock;
+
+const levels = { NOTICE: 35, AUDIT: 45, SECURITY: 55 };
+
+describe("Custom Levels", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue({ ok: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should generate a method per custom level", () => {
+    const logger = createLogger({ levels, transports: [testTransport] });
+
+    logger.notice("n");
+    logger.audit("a", { tariffId: "t-1" });
+    logger.security("s", new Error("intrusion"));
+
+    expect(entries.map((e) => [e.levelName, e.level])).toEqual([
+      ["NOTICE", 35],
+      ["AUDIT", 45],
+      ["SECURITY", 55],
+    ]);
+    expect(entries[1]!.meta).toEqual({ tariffId: "t-1" });
+    expect(entries[2]!.error!.message).toBe("intrusion");
+  });
+
+  it("should type custom methods when the meta type is given explicitly", () => {
+    interface TariffMeta {
+      tariffId: string;
+    }
+    const logger = createLogger.withLevels(levels)<TariffMeta>({
+      transports: [testTransport],
+    });
+
+    logger.audit("a", { tariffId: "t-1" });
+    // @ts-expect-error — meta is checked against TariffMeta
+    logger.audit("a", { tarifId: "t-1" });
+
+    expectTypeOf(logger.audit).toEqualTypeOf<LevelMethod<TariffMeta>>();
+    expectTypeOf(logger.child({}).security).toEqualTypeOf<
+      LevelMethod<TariffMeta>
+    >();
+    expectTypeOf(
+      createLogger.withLevels(levels)({ printf: true }).notice,
+    ).toEqualTypeOf<PrintfLevelMethod>();
+    expect(entries.map((e) => e.levelName)).toEqual(["AUDIT", "AUDIT"]);
+  });
+
+  it("should extend the level maps and resolveLevel", () => {
+    createLogger({ levels });
+    expect(LogLevelNameMap.audit).toBe(45);
+    expect(LogLevelValueMap[45]).toBe("AUDIT");
+    expect(resolveLevel("security")).toBe(55);
+  });
+
+  it("should respect the logger level for custom levels", () => {
+    const logger = createLogger({
+      levels,
+      level: "AUDIT",
+      transports: [testTransport],
+    });
+    logger.notice("dropped");
+    logger.warn("dropped");
+    logger.audit("kept");
+    expect(entries.map((e) => e.message)).toEqual(["kept"]);
+    expect(logger.getLevel()).toBe("AUDIT");
+    expect(logger.isLevelEnabled("SECURITY")).toBe(true);
+  });
+
+  it("should apply per-transport level filters by custom name", () => {
+    const auditEntries: LogEntry[] = [];
+    const logger = createLogger({
+      levels,
+      transports: [
+        testTransport,
+        {
+          name: "audit-file",
+          level: "AUDIT",
+          write: (e) => {
+            auditEntries.push(e);
+          },
+        },
+      ],
+    });
+
+    logger.info("i");
+    logger.audit("a");
+    expect(entries).toHaveLength(2);
+    expect(auditEntries.map((e) => e.message)).toEqual(["a"]);
+  });
+
+  it("should carry custom methods to child and namespaced loggers", () => {
+    const logger = createLogger({ levels, transports: [testTransport] });
+    logger.child({ cp: "CP-101" }).audit("child");
+    logger.namespace("billing").audit("ns");
+    expect(entries.map((e) => e.message)).toEqual(["child", "ns"]);
+    expect(entries[0]!.context).toEqual({ cp: "CP-101" });
+    expect(entries[1]!.namespace).toBe("billing");
+  });
+
+  it("should reject levels that collide with logger methods", () => {
+    expect(() => createLogger({ levels: { CHILD: 33 } })).toThrow(
+      'collides with logger method "child"',
+    );
+  });
+
+  it("should reject conflicting registrations", () => {
+    expect(() => registerLevels({ INFO: 31 })).toThrow(
+      'Level "INFO" is already defined',
+    );
+    expect(() => registerLevels({ CUSTOM: 30 })).toThrow(
+      'Level value 30 is already used by "INFO"',
+    );
+    expect(() => registerLevels({ NEVER: Infinity })).toThrow("finite");
+  });
+
+  it("should style custom levels in prettyTransport", () => {
+    const logSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const logger = createLogger({
+      levels,
+      transports: [prettyTransport({ levelIcons: { AUDIT: "📋" } })],
+    });
+
+    logger.audit("tariff changed");
+
+    const output = logSpy.mock.calls[0]![0] as string;
+    expect(output).toContain("📋");
+    expect(output).toContain("AUDIT");
+    // Borrows WARN's color (nearest built-in below 45)
+    expect(output).toContain("\x1b[33mAUDIT");
+  });
+
+  it("should map custom levels in slack and discord colors", async () => {
+    const slack = slackTransport({
+      webhookUrl: "https://slack.com/hook",
+      levelColors: { SECURITY: "#8b0000" },
+      levelEmojis: { SECURITY: "🛡️" },
+    });
+    const discord = discordTransport({
+      webhookUrl: "https://discord.com/hook",
+      levelColors: { SECURITY: 9109504 },
+    });
+    const entry: LogEntry = {
+      id: "1",
+      level: 55,
+      levelName: "SECURITY",
+      message: "intrusion",
+      timestamp: 0,
+      meta: {},
+    };
+
+    await slack.write(entry);
+    await discord.write(entry);
+
+    const slackBody = JSON.parse(fetchMock.mock.calls[0]![1].body);
+    expect(slackBody.attachments[0].color).toBe("#8b0000");
+    expect(slackBody.attachments[0].blocks[0].text.text).toContain("🛡️");
+    const discordBody = JSON.parse(fetchMock.mock.calls[1]![1].body);
+    expect(discordBody.embeds[0].color).toBe(9109504);
+  });
+});
@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createLogger,
+  type LogEntry,
+  prettyTransport,
+  serializeError,
+  type Transport,
+} from "../src/index.js";
+
+class RpcError extends Error {
+  constructor(
+    message: string,
+    public errorCode: string,
+    public errorDetails: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+describe("Error Serialization", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+  });
+
+  describe("serializeError", () => {
+    it("should walk cause chains", () => {
+      const root = new Error("ECONNRESET");
+      const err = new Error("Boot failed", { cause: root });
+      const result = serializeError(err, { includeStack: false });
+
+      expect(result).toEqual({
+        name: "Error",
+        message: "Boot failed",
+        cause: { name: "Error", message: "ECONNRESET" },
+      });
+    });
+
+    it("should stop at the depth limit", () => {
+      let err = new Error("level 0");
+      for (let i = 1; i <= 5; i++) err = new Error(`level ${i}`, { cause: err });
+
+      const result = serializeError(err, { maxDepth: 2 });
+      expect(result.cause!.cause!.truncated).toBe(true);
+      expect(result.cause!.cause!.message).toBe("level 3");
+      expect(result.cause!.cause!.cause).toBeUndefined();
+    });
+
+    it("should mark circular causes", () => {
+      const a = new Error("a");
+      const b = new Error("b", { cause: a });
+      (a as Error & { cause: unknown }).cause = b;
+
+      const result = serializeError(a);
+      expect(result.cause!.cause).toMatchObject({ message: "a", circular: true });
+    });
+
+    it("should serialize AggregateError members", () => {
+      const err = new AggregateError(
+        [new Error("CP-1 offline"), new Error("CP-2 offline")],
+        "Broadcast failed",
+      );
+      const result = serializeError(err);
+      expect(result.name).toBe("AggregateError");
+      expect(result.errors!.map((e) => e.message)).toEqual([
+        "CP-1 offline",
+        "CP-2 offline",
+      ]);
+    });
+
+    it("should copy custom own properties", () => {
+      const err = new RpcError("Rejected", "FormationViolation", {
+        field: "idTag",
+      });
+      const result = serializeError(err);
+      expect(result.errorCode).toBe("FormationViolation");
+      expect(result.errorDetails).toEqual({ field: "idTag" });
+    });
+
+    it("should survive throwing getters and skip functions", () => {
+      const err = new Error("weird") as Error & Record<string, unknown>;
+      Object.defineProperty(err, "statusCode", {
+        enumerable: true,
+        get() {
+          throw new Error("getter");
+        },
+      });
+      err.retry = () => {};
+
+      const result = serializeError(err);
+      expect(result.message).toBe("weird");
+      expect("retry" in result).toBe(false);
+      expect(result.statusCode).toBeUndefined();
+    });
+  });
+
+  describe("logger integration", () => {
+    it("should keep cause and custom fields on entry.error", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const err = Object.assign(
+        new Error("Upstream failed", { cause: new Error("timeout") }),
+        { statusCode: 502 },
+      );
+
+      logger.error("Request failed", err);
+
+      expect(entries[0]!.error!.statusCode).toBe(502);
+      expect(entries[0]!.error!.cause!.message).toBe("timeout");
+      expect(entries[0]!.error!.cause!.stack).toBeDefined();
+    });
+
+    it("should apply includeStack to nested errors", () => {
+      const logger = createLogger({
+        transports: [testTransport],
+        includeStack: false,
+      });
+      logger.error("fail", new Error("a", { cause: new Error("b") }));
+      expect(entries[0]!.error!.stack).toBeUndefined();
+      expect(entries[0]!.error!.cause!.stack).toBeUndefined();
+    });
+
+    it("should serialize errors found in meta without mutating it", () => {
+      const logger = createLogger({
+        transports: [testTransport],
+        includeStack: false,
+      });
+      const meta = {
+        action: "RemoteStart",
+        failures: [{ cp: "CP-1", error: new Error("offline") }],
+      };
+
+      logger.warn("Partial failure", meta);
+
+      expect(entries[0]!.meta).toEqual({
+        action: "RemoteStart",
+        failures: [{ cp: "CP-1", error: { name: "Error", message: "offline" } }],
+      });
+      expect(meta.failures[0]!.error).toBeInstanceOf(Error);
+    });
+
+    it("should pass meta through untouched when it holds no errors", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const meta = { action: "Heartbeat" };
+      logger.info("hb", meta);
+      expect(entries[0]!.meta).toBe(meta);
+    });
+
+    it("should use a custom errorSerializer", () => {
+      const errorSerializer = vi.fn((error: Error) => ({
+        message: error.message.toUpperCase(),
+      }));
+      const logger = createLogger({
+        transports: [testTransport],
+        errorSerializer,
+      });
+
+      logger.error("fail", { inner: new Error("meta") }, new Error("arg"));
+
+      expect(entries[0]!.error).toEqual({ message: "ARG" });
+      expect(entries[0]!.meta).toEqual({ inner: { message: "META" } });
+      expect(errorSerializer.mock.calls[0]![1]).toEqual({
+        includeStack: true,
+        maxDepth: 5,
+      });
+    });
+
+    it("should fall back to the default serializer if the custom one throws", () => {
+      const logger = createLogger({
+        transports: [testTransport],
+        errorSerializer: () => {
+          throw new Error("serializer bug");
+        },
+      });
+      logger.error("fail", new Error("original"));
+      expect(entries[0]!.error!.message).toBe("original");
+    });
+
+    it("should print the cause chain in prettyTransport", () => {
+      const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const logger = createLogger({
+        transports: [prettyTransport({ colors: false })],
+        includeStack: false,
+      });
+
+      logger.error("fail", new Error("outer", { cause: new Error("inner") }));
+
+      const output = spy.mock.calls[0]![0] as string;
+      expect(output).toContain("Error: outer");
+      expect(output).toContain("Caused by: Error: inner");
+      spy.mockRestore();
+    });
+  });
+});
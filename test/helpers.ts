@@ -0,0 +1,14 @@
+import type { LogEntry, Transport } from "../src/index.js";
+
+/** Transport that keeps every entry it receives, for assertions */
+export function collect(name = "collect", extra: Partial<Transport> = {}) {
+  const entries: LogEntry[] = [];
+  const transport: Transport = {
+    name,
+    write(entry) {
+      entries.push(entry);
+    },
+    ...extra,
+  };
+  return { entries, transport };
+}
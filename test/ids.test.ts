@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createIdGenerator,
+  createLogger,
+  createLoggerFromConfig,
+  type LogEntry,
+} from "../src/index.js";
+import { redisTransport } from "../src/transports/redis.js";
+import { collect } from "./helpers.js";
+
+describe("ID and sequence generation", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createIdGenerator", () => {
+    it("should generate sortable, monotonic ULIDs", () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      const next = createIdGenerator("ulid");
+
+      const ids = Array.from({ length: 50 }, () => next());
+
+      for (const id of ids) expect(id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+      expect(new Set(ids).size).toBe(50);
+      expect([...ids].sort()).toEqual(ids);
+      expect(ids[0]!.slice(0, 10)).toBe("01HF7YAT00");
+    });
+
+    it("should generate monotonic UUIDv7s", () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      const next = createIdGenerator("uuidv7");
+
+      const ids = Array.from({ length: 50 }, () => next());
+
+      for (const id of ids) {
+        expect(id).toMatch(
+          /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+        );
+      }
+      expect(new Set(ids).size).toBe(50);
+      expect([...ids].sort()).toEqual(ids);
+      expect(ids[0]!.replace("-", "").slice(0, 12)).toBe(
+        (1_700_000_000_000).toString(16).padStart(12, "0"),
+      );
+    });
+
+    it("should keep ULIDs ordered when the clock goes back", () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      const next = createIdGenerator("ulid");
+      const first = next();
+      vi.setSystemTime(1_699_999_999_000);
+
+      expect(next() > first).toBe(true);
+    });
+
+    it("should generate counter IDs with a per-generator prefix", () => {
+      const a = createIdGenerator("counter");
+      const b = createIdGenerator("counter");
+
+      const [a1, a2] = [a(), a()];
+      expect(a1).toMatch(/-1$/);
+      expect(a2).toMatch(/-2$/);
+      expect(a1.split("-")[0]).not.toBe(b().split("-")[0]);
+    });
+
+    it("should support none, cuid2 and custom functions", () => {
+      expect(createIdGenerator("none")()).toBe("");
+      expect(createIdGenerator()()).toMatch(/^[a-z0-9]{20,}$/);
+      expect(createIdGenerator(() => "x")()).toBe("x");
+    });
+
+    it("should reject unknown names", () => {
+      expect(() => createIdGenerator("nope" as never)).toThrow(
+        '[voltlog] Unknown idGenerator "nope"',
+      );
+    });
+  });
+
+  describe("logger", () => {
+    it("should use the configured idGenerator", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        idGenerator: "ulid",
+      });
+
+      logger.info("a");
+
+      expect(t.entries[0]!.id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    });
+
+    it("should stamp an increasing seq shared across loggers", () => {
+      const t = collect();
+      const a = createLogger({ transports: [t.transport], idGenerator: "none" });
+      const b = createLogger({ transports: [t.transport] });
+
+      a.info("1");
+      b.child({ x: 1 }).info("2");
+      a.warn("3");
+
+      const seqs = t.entries.map((e) => e.seq);
+      expect(seqs[1]).toBe(seqs[0]! + 1);
+      expect(seqs[2]).toBe(seqs[1]! + 1);
+      expect(t.entries[0]!.id).toBe("");
+    });
+
+    it("should order entries with the same timestamp by seq", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        timestamp: () => 1000,
+      });
+
+      for (let i = 0; i < 5; i++) logger.info(`m${i}`);
+
+      const shuffled = [...t.entries].reverse();
+      shuffled.sort((x, y) => x.timestamp - y.timestamp || x.seq! - y.seq!);
+      expect(shuffled.map((e) => e.message)).toEqual(["m0", "m1", "m2", "m3", "m4"]);
+    });
+
+    it("should accept idGenerator from config", () => {
+      const t = collect();
+      const logger = createLoggerFromConfig(
+        { idGenerator: "counter" },
+        { defaults: { transports: [t.transport] } },
+      );
+
+      logger.info("a");
+
+      expect(t.entries[0]!.id).toMatch(/^[0-9A-Z]{8}-1$/);
+    });
+  });
+
+  describe("transports", () => {
+    it("should write seq to redis only when the entry has one", () => {
+      const xadd = vi.fn().mockResolvedValue("1-0");
+      const transport = redisTransport({ client: { xadd } });
+      const entry: LogEntry = {
+        id: "e1",
+        level: 30,
+        levelName: "INFO",
+        message: "Boot",
+        timestamp: 1000,
+        meta: {},
+      };
+
+      transport.write({ ...entry, seq: 7 });
+      transport.write(entry);
+
+      const [withSeq, withoutSeq] = xadd.mock.calls as string[][];
+      expect(withSeq![withSeq!.indexOf("seq") + 1]).toBe("7");
+      expect(withoutSeq).not.toContain("seq");
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  batchTransport,
+  correlationIdMiddleware,
+  createLogger,
+} from "../src/index.js";
+import { collect } from "./helpers.js";
+
+describe("Entry immutability", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("freezeEntries", () => {
+    it("should freeze the entry and its top-level objects", () => {
+      const t = collect("t");
+      const logger = createLogger({
+        transports: [t.transport],
+        freezeEntries: true,
+      });
+
+      logger.child({ chargePointId: "CP-1" }).error("boom", { a: 1 }, new Error("x"));
+
+      const entry = t.entries[0]!;
+      expect(Object.isFrozen(entry)).toBe(true);
+      expect(Object.isFrozen(entry.meta)).toBe(true);
+      expect(Object.isFrozen(entry.context)).toBe(true);
+      expect(Object.isFrozen(entry.error)).toBe(true);
+    });
+
+    it("should not freeze the caller's meta object", () => {
+      const t = collect("t");
+      const logger = createLogger({
+        transports: [t.transport],
+        freezeEntries: true,
+      });
+      const meta = { chargePointId: "CP-1" };
+
+      logger.info("test", meta);
+
+      expect(Object.isFrozen(meta)).toBe(false);
+      expect(t.entries[0]!.meta).toEqual(meta);
+    });
+
+    it("should report a transport that mutates a frozen entry", () => {
+      const onTransportError = vi.fn();
+      const logger = createLogger({
+        transports: [
+          {
+            name: "mutator",
+            write(entry) {
+              entry.message = "changed";
+            },
+          },
+        ],
+        freezeEntries: true,
+        onTransportError,
+      });
+
+      logger.info("test");
+      expect(onTransportError).toHaveBeenCalledTimes(1);
+      expect(onTransportError.mock.calls[0]![0]).toBeInstanceOf(TypeError);
+    });
+
+    it("should default to NODE_ENV === 'development'", () => {
+      vi.stubEnv("NODE_ENV", "development");
+      const dev = collect("dev");
+      createLogger({ transports: [dev.transport] }).info("test");
+      expect(Object.isFrozen(dev.entries[0])).toBe(true);
+
+      vi.stubEnv("NODE_ENV", "production");
+      const prod = collect("prod");
+      createLogger({ transports: [prod.transport] }).info("test");
+      expect(Object.isFrozen(prod.entries[0])).toBe(false);
+    });
+  });
+
+  describe("mutable transports", () => {
+    it("should give mutable transports their own copy", () => {
+      const shared = collect("shared");
+      const logger = createLogger({
+        transports: [
+          {
+            name: "mutator",
+            mutable: true,
+            write(entry) {
+              entry.message = "changed";
+              (entry.meta as Record<string, unknown>).added = true;
+            },
+          },
+          shared.transport,
+        ],
+        freezeEntries: true,
+      });
+
+      logger.info("original", { a: 1 });
+
+      expect(shared.entries[0]!.message).toBe("original");
+      expect(shared.entries[0]!.meta).toEqual({ a: 1 });
+    });
+
+    it("should keep the copy through batchTransport", () => {
+      const inner = collect("inner", { mutable: true });
+      const batched = batchTransport(inner.transport, { batchSize: 1 });
+      expect(batched.mutable).toBe(true);
+    });
+  });
+
+  describe("copy-on-write middleware", () => {
+    it("should not leak middleware changes into the caller's meta", () => {
+      const t = collect("t");
+      const logger = createLogger({
+        transports: [t.transport],
+        middleware: [correlationIdMiddleware({ generator: () => "corr-1" })],
+      });
+      const meta = { chargePointId: "CP-1" };
+
+      logger.info("test", meta);
+
+      expect(meta).toEqual({ chargePointId: "CP-1" });
+      expect(t.entries[0]!.correlationId).toBe("corr-1");
+      expect(t.entries[0]!.meta).toEqual({
+        chargePointId: "CP-1",
+        correlationId: "corr-1",
+      });
+    });
+  });
+});
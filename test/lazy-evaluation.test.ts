@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createLogger, type LogEntry, type Transport } from "../src/index.js";
+
+describe("Lazy Evaluation", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+  });
+
+  it("should not evaluate thunks when the level is disabled", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    const metaFn = vi.fn(() => ({ payload: "big" }));
+    const messageFn = vi.fn(() => "msg");
+
+    logger.debug("msg", metaFn);
+    logger.debug(messageFn);
+
+    expect(metaFn).not.toHaveBeenCalled();
+    expect(messageFn).not.toHaveBeenCalled();
+    expect(entries).toHaveLength(0);
+  });
+
+  it("should evaluate a lazy meta when the level is enabled", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.info("parsed", () => ({ action: "BootNotification" }));
+    expect(entries[0]!.meta).toEqual({ action: "BootNotification" });
+  });
+
+  it("should evaluate a lazy message tuple", () => {
+    const logger = createLogger({ level: "DEBUG", transports: [testTransport] });
+    logger.debug(() => ["payload", { size: 42 }]);
+    expect(entries[0]!.message).toBe("payload");
+    expect(entries[0]!.meta).toEqual({ size: 42 });
+  });
+
+  it("should accept a lazy message returning only a string", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.info(() => "computed", { port: 9000 });
+    expect(entries[0]!.message).toBe("computed");
+    expect(entries[0]!.meta).toEqual({ port: 9000 });
+  });
+
+  it("should support lazy meta together with an error", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.error("fail", () => ({ action: "Boot" }), new Error("crash"));
+    expect(entries[0]!.meta).toEqual({ action: "Boot" });
+    expect(entries[0]!.error!.message).toBe("crash");
+  });
+
+  it("should work on child loggers", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    const metaFn = vi.fn(() => ({ a: 1 }));
+    const child = logger.child({ cp: "CP-101" });
+
+    child.debug("dropped", metaFn);
+    child.info("kept", metaFn);
+
+    expect(metaFn).toHaveBeenCalledTimes(1);
+    expect(entries[0]!.context).toEqual({ cp: "CP-101" });
+  });
+
+  it("should turn a throwing thunk into an error entry", () => {
+    const logger = createLogger({ level: "DEBUG", transports: [testTransport] });
+
+    expect(() =>
+      logger.debug("parse payload", () => JSON.parse("{not json")),
+    ).not.toThrow();
+
+    expect(entries[0]!.levelName).toBe("ERROR");
+    expect(entries[0]!.message).toBe("parse payload");
+    expect(entries[0]!.meta).toEqual({});
+    expect(entries[0]!.error!.name).toBe("SyntaxError");
+  });
+
+  it("should keep higher levels when a thunk throws", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.fatal(() => {
+      throw "not an error";
+    });
+    expect(entries[0]!.levelName).toBe("FATAL");
+    expect(entries[0]!.message).toBe("Lazy log evaluation failed");
+    expect(entries[0]!.error!.message).toBe("not an error");
+  });
+});
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createLogger, type LogEntry, type Transport } from "../src/index.js";
+
+describe("Runtime Level Control", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+  });
+
+  it("should change the level at runtime", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.debug("dropped");
+    logger.setLevel("DEBUG");
+    logger.debug("kept");
+    expect(entries.map((e) => e.message)).toEqual(["kept"]);
+  });
+
+  it("should report the current level", () => {
+    const logger = createLogger({ level: "WARN" });
+    expect(logger.getLevel()).toBe("WARN");
+    logger.setLevel("TRACE");
+    expect(logger.getLevel()).toBe("TRACE");
+    logger.setLevel("SILENT");
+    expect(logger.getLevel()).toBe("SILENT");
+  });
+
+  it("should check whether a level is enabled", () => {
+    const logger = createLogger({ level: "INFO" });
+    expect(logger.isLevelEnabled("DEBUG")).toBe(false);
+    expect(logger.isLevelEnabled("INFO")).toBe(true);
+    expect(logger.isLevelEnabled("ERROR")).toBe(true);
+  });
+
+  describe("child loggers", () => {
+    it("should follow parent level changes by default", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const child = logger.child({ cp: "CP-101" });
+
+      logger.setLevel("DEBUG");
+      child.debug("kept");
+      expect(child.getLevel()).toBe("DEBUG");
+      expect(entries).toHaveLength(1);
+    });
+
+    it("should override the parent level without affecting it", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const child = logger.child({ cp: "CP-101" });
+
+      child.setLevel("DEBUG");
+      child.debug("child debug");
+      logger.debug("parent debug");
+
+      expect(entries.map((e) => e.message)).toEqual(["child debug"]);
+      expect(logger.getLevel()).toBe("INFO");
+      expect(child.isLevelEnabled("DEBUG")).toBe(true);
+    });
+
+    it("should be able to raise its level above the parent", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const child = logger.child({ cp: "CP-101" });
+
+      child.setLevel("ERROR");
+      child.warn("dropped");
+      child.error("kept");
+      expect(entries.map((e) => e.message)).toEqual(["kept"]);
+    });
+
+    it("should let nested children inherit the nearest override", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const child = logger.child({ cp: "CP-101" });
+      const grandchild = child.child({ session: "abc" });
+
+      child.setLevel("TRACE");
+      grandchild.trace("kept");
+      expect(grandchild.getLevel()).toBe("TRACE");
+      expect(entries).toHaveLength(1);
+    });
+  });
+});
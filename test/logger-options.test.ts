@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createLogger, type LogEntry, type Transport } from "../src/index.js";
+
+describe("Logger Options", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+  });
+
+  describe("redact", () => {
+    it("should redact configured fields in meta and context", () => {
+      const logger = createLogger({
+        transports: [testTransport],
+        redact: ["password", "idToken"],
+        context: { idToken: "tok" },
+      });
+
+      logger.info("auth", { password: "s3cret", user: "admin" });
+
+      expect(entries[0]!.meta).toEqual({
+        password: "[REDACTED]",
+        user: "admin",
+      });
+      expect(entries[0]!.context).toEqual({ idToken: "[REDACTED]" });
+    });
+
+    it("should redact before user middleware runs", () => {
+      const seen: unknown[] = [];
+      const logger = createLogger({
+        transports: [testTransport],
+        redact: ["password"],
+        middleware: [
+          (entry, next) => {
+            seen.push(entry.meta.password);
+            next(entry);
+          },
+        ],
+      });
+
+      logger.info("auth", { password: "s3cret" });
+      expect(seen).toEqual(["[REDACTED]"]);
+    });
+
+    it("should leave entries untouched without redact", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      logger.info("auth", { password: "s3cret" });
+      expect(entries[0]!.meta).toEqual({ password: "s3cret" });
+    });
+  });
+
+  describe("alerts", () => {
+    it("should fire alert rules", () => {
+      const onAlert = vi.fn();
+      const logger = createLogger({
+        transports: [testTransport],
+        alerts: [
+          {
+            name: "errors",
+            when: (entry) => entry.level >= 50,
+            threshold: 2,
+            onAlert,
+          },
+        ],
+      });
+
+      logger.error("first");
+      expect(onAlert).not.toHaveBeenCalled();
+      logger.error("second");
+      expect(onAlert).toHaveBeenCalledTimes(1);
+      expect(onAlert.mock.calls[0]![0]).toHaveLength(2);
+      expect(entries).toHaveLength(2);
+    });
+
+    it("should see entries dropped by exchangeLog 'only'", () => {
+      const onAlert = vi.fn();
+      const logger = createLogger({
+        transports: [testTransport],
+        exchangeLog: "only",
+        alerts: [{ name: "any", when: () => true, onAlert }],
+      });
+
+      logger.error("not an exchange");
+      expect(onAlert).toHaveBeenCalledTimes(1);
+      expect(entries).toHaveLength(0);
+    });
+  });
+
+  describe("exchangeLog", () => {
+    const exchangeMeta = {
+      chargePointId: "CP-101",
+      action: "BootNotification",
+      messageType: "CALL",
+      direction: "IN",
+      port: 9000,
+    };
+
+    it("should not annotate entries when disabled", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      logger.info("exchange", exchangeMeta);
+      logger.info("plain");
+      expect(entries).toHaveLength(2);
+      expect(entries[0]!.exchange).toBeUndefined();
+    });
+
+    it("should annotate exchanges and keep normal logs with true", () => {
+      const logger = createLogger({
+        transports: [testTransport],
+        exchangeLog: true,
+      });
+      logger.info("exchange", exchangeMeta);
+      logger.info("plain");
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]!.exchange).toEqual({
+        chargePointId: "CP-101",
+        action: "BootNotification",
+        messageType: "CALL",
+        direction: "IN",
+      });
+      expect(entries[1]!.exchange).toBeUndefined();
+    });
+
+    it("should keep only exchanges with 'only'", () => {
+      const logger = createLogger({
+        transports: [testTransport],
+        exchangeLog: "only",
+      });
+      logger.info("exchange", exchangeMeta);
+      logger.info("plain");
+      logger.info("action without messageType", { action: "Heartbeat" });
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]!.message).toBe("exchange");
+      expect(entries[0]!.exchange?.action).toBe("BootNotification");
+    });
+  });
+});
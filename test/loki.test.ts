@@ -58,6 +58,19 @@ describe("Loki Transport", () => {
     expect(body.streams[0].values[0][1]).toContain("test");
   });
 
+  it("should order entries by timestamp, then seq", async () => {
+    const transport = lokiTransport({ host: "http://loki:3100", batchSize: 3 });
+
+    transport.write({ ...mockEntry, seq: 3, message: "c" });
+    transport.write({ ...mockEntry, seq: 2, message: "b" });
+    await transport.write({ ...mockEntry, seq: 1, timestamp: 1599999999999, message: "a" });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    const lines = body.streams[0].values.map((v: string[]) => JSON.parse(v[1]!));
+    expect(lines.map((l: { message: string }) => l.message)).toEqual(["a", "b", "c"]);
+    expect(lines[1].seq).toBe(2);
+  });
+
   it("should flush immediately when batch size reached", async () => {
     const transport = lokiTransport({
       host: "http://loki:3100",
@@ -0,0 +1,236 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createLogger,
+  createLoggerFromConfig,
+  deduplicationMiddleware,
+  hashTemplate,
+  isMessageTemplate,
+  prettyTransport,
+  renderTemplate,
+  samplingMiddleware,
+} from "../src/index.js";
+import { collect } from "./helpers.js";
+
+describe("Message templates", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe("renderTemplate", () => {
+    it("should fill placeholders and leave unknown ones as written", () => {
+      const values: Record<string, unknown> = { a: "x", n: 3, o: { k: 1 } };
+      expect(renderTemplate("{a} {n} {o} {missing}", (k) => values[k])).toBe(
+        'x 3 {"k":1} {missing}',
+      );
+    });
+
+    it("should treat doubled braces as literals", () => {
+      expect(renderTemplate("{{a}} {a}", () => "v")).toBe("{a} v");
+    });
+
+    it("should detect templates", () => {
+      expect(isMessageTemplate("Rejected {action}")).toBe(true);
+      expect(isMessageTemplate("Payload {\"a\": 1}")).toBe(false);
+      expect(isMessageTemplate("No placeholders")).toBe(false);
+    });
+
+    it("should hash templates stably", () => {
+      expect(hashTemplate("Rejected {action}")).toMatch(/^[0-9a-f]{8}$/);
+      expect(hashTemplate("Rejected {action}")).toBe(
+        hashTemplate("Rejected {action}"),
+      );
+      expect(hashTemplate("Rejected {action}")).not.toBe(
+        hashTemplate("Accepted {action}"),
+      );
+    });
+  });
+
+  describe("logger", () => {
+    it("should render the message and keep the template and hash", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        messageTemplates: true,
+      });
+
+      logger.info("Charge point {chargePointId} rejected {action}", {
+        chargePointId: "CP-101",
+        action: "RemoteStart",
+      });
+
+      const entry = t.entries[0]!;
+      expect(entry.message).toBe("Charge point CP-101 rejected RemoteStart");
+      expect(entry.messageTemplate).toBe(
+        "Charge point {chargePointId} rejected {action}",
+      );
+      expect(entry.templateHash).toBe(
+        hashTemplate("Charge point {chargePointId} rejected {action}"),
+      );
+      expect(entry.meta).toEqual({
+        chargePointId: "CP-101",
+        action: "RemoteStart",
+      });
+    });
+
+    it("should fall back to bound context for values", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        messageTemplates: true,
+      });
+
+      logger
+        .child({ chargePointId: "CP-7" })
+        .warn("{chargePointId} sent {action}", { action: "Heartbeat" });
+
+      expect(t.entries[0]!.message).toBe("CP-7 sent Heartbeat");
+    });
+
+    it("should leave plain messages untouched", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        messageTemplates: true,
+      });
+
+      logger.info("Server started", { port: 9000 });
+
+      expect(t.entries[0]!.message).toBe("Server started");
+      expect(t.entries[0]!.messageTemplate).toBeUndefined();
+      expect(t.entries[0]!.templateHash).toBeUndefined();
+    });
+
+    it("should leave messages unchanged by default", () => {
+      const t = collect();
+      const logger = createLogger({ transports: [t.transport] });
+
+      logger.info("Use {{ and }} in {word} things", { word: "W" });
+
+      expect(t.entries[0]!.message).toBe("Use {{ and }} in {word} things");
+      expect(t.entries[0]!.messageTemplate).toBeUndefined();
+      expect(t.entries[0]!.templateHash).toBeUndefined();
+    });
+
+    it("should be disabled with messageTemplates: false", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        messageTemplates: false,
+      });
+
+      logger.info("Rejected {action}", { action: "Reset" });
+
+      expect(t.entries[0]!.message).toBe("Rejected {action}");
+      expect(t.entries[0]!.messageTemplate).toBeUndefined();
+    });
+
+    it("should not leak redacted values through the message", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        messageTemplates: true,
+        redact: ["idTag"],
+      });
+
+      logger.info("Authorize {idTag} on {chargePointId}", {
+        idTag: "SECRET",
+        chargePointId: "CP-1",
+      });
+
+      expect(t.entries[0]!.message).toBe("Authorize [REDACTED] on CP-1");
+    });
+
+    it("should accept messageTemplates from config", () => {
+      const t = collect();
+      const logger = createLoggerFromConfig(
+        { messageTemplates: true },
+        { defaults: { transports: [t.transport] } },
+      );
+
+      logger.info("Rejected {action}", { action: "Reset" });
+
+      expect(t.entries[0]!.message).toBe("Rejected Reset");
+    });
+  });
+
+  describe("prettyTransport", () => {
+    it("should highlight substituted values", () => {
+      const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+      const logger = createLogger({
+        transports: [prettyTransport({ timestamps: false })],
+        messageTemplates: true,
+      });
+
+      logger.info("Rejected {action}", { action: "Reset" });
+
+      const output = spy.mock.calls[0]![0] as string;
+      expect(output).toContain("Rejected \x1b[36mReset\x1b[0m");
+    });
+
+    it("should print the rendered message without colors", () => {
+      const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+      const logger = createLogger({
+        transports: [prettyTransport({ timestamps: false, colors: false })],
+        messageTemplates: true,
+      });
+
+      logger.info("Rejected {action}", { action: "Reset" });
+
+      expect(spy.mock.calls[0]![0]).toContain("Rejected Reset");
+    });
+  });
+
+  describe("keyBy: 'template'", () => {
+    it("should rate limit sampling per template", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        messageTemplates: true,
+        middleware: [samplingMiddleware({ maxPerWindow: 1, keyBy: "template" })],
+      });
+
+      logger.info("Rejected {action}", { action: "Reset" });
+      logger.info("Rejected {action}", { action: "UnlockConnector" });
+      logger.info("Accepted {action}", { action: "Reset" });
+
+      expect(t.entries.map((e) => e.message)).toEqual([
+        "Rejected Reset",
+        "Accepted Reset",
+      ]);
+    });
+
+    it("should key sampling on the rendered message by default", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        messageTemplates: true,
+        middleware: [samplingMiddleware({ maxPerWindow: 1 })],
+      });
+
+      logger.info("Rejected {action}", { action: "Reset" });
+      logger.info("Rejected {action}", { action: "UnlockConnector" });
+
+      expect(t.entries).toHaveLength(2);
+    });
+
+    it("should group deduplicated entries per template", () => {
+      vi.useFakeTimers();
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        messageTemplates: true,
+        middleware: [
+          deduplicationMiddleware({ windowMs: 100, keyBy: "template" }),
+        ],
+      });
+
+      logger.warn("Rejected {action}", { action: "Reset" });
+      logger.warn("Rejected {action}", { action: "UnlockConnector" });
+      vi.advanceTimersByTime(100);
+
+      expect(t.entries).toHaveLength(1);
+      expect(t.entries[0]!.meta).toMatchObject({ duplicateCount: 2 });
+    });
+  });
+});
@@ -18,9 +18,12 @@ describe("Correlation ID Middleware", () => {
     const entry = { ...mockEntry, meta: {} };
 
     middleware(entry, next);
+    const forwarded = next.mock.calls[0][0] as LogEntry;
 
-    expect(entry.correlationId).toBeDefined();
-    expect((entry.meta as any).correlationId).toBe(entry.correlationId);
+    expect(forwarded.correlationId).toBeDefined();
+    expect((forwarded.meta as any).correlationId).toBe(
+      forwarded.correlationId,
+    );
   });
 
   it("should use existing ID from entry property", () => {
@@ -42,9 +45,10 @@ describe("Correlation ID Middleware", () => {
     const entry = { ...mockEntry, meta: { traceId: "trace-123" } };
 
     middleware(entry, next);
+    const forwarded = next.mock.calls[0][0] as LogEntry;
 
-    expect(entry.correlationId).toBe("trace-123");
-    expect((entry.meta as any).correlationId).toBe("trace-123");
+    expect(forwarded.correlationId).toBe("trace-123");
+    expect((forwarded.meta as any).correlationId).toBe("trace-123");
   });
 
   it("should extract ID from custom header", () => {
@@ -56,9 +60,10 @@ describe("Correlation ID Middleware", () => {
     };
 
     middleware(entry, next);
+    const forwarded = next.mock.calls[0][0] as LogEntry;
 
-    expect(entry.correlationId).toBe("req-abc");
-    expect((entry.meta as any).correlationId).toBe("req-abc");
+    expect(forwarded.correlationId).toBe("req-abc");
+    expect((forwarded.meta as any).correlationId).toBe("req-abc");
   });
 
   it("should use custom generator", () => {
@@ -69,7 +74,21 @@ describe("Correlation ID Middleware", () => {
     const entry = { ...mockEntry, meta: {} };
 
     middleware(entry, next);
+    const forwarded = next.mock.calls[0][0] as LogEntry;
 
-    expect(entry.correlationId).toBe("custom-gen-id");
+    expect(forwarded.correlationId).toBe("custom-gen-id");
+  });
+
+  it("should leave the incoming entry and meta untouched", () => {
+    const middleware = correlationIdMiddleware();
+    const next = vi.fn();
+    const meta = { traceId: "trace-123" };
+    const entry = { ...mockEntry, meta };
+
+    middleware(entry, next);
+
+    expect(entry.correlationId).toBeUndefined();
+    expect(meta).toEqual({ traceId: "trace-123" });
+    expect(next.mock.calls[0][0]).not.toBe(entry);
   });
 });
@@ -70,6 +70,25 @@ describe("Deduplication Middleware", () => {
     expect(callArg.meta.duplicateCount).toBe(3);
   });
 
+  it("should forward a copy instead of changing the buffered entry", () => {
+    const middleware = deduplicationMiddleware({ windowMs: 1000 });
+    const next = vi.fn();
+    const entry = Object.freeze({
+      ...mockEntry,
+      meta: Object.freeze({ chargePointId: "CP-1" }),
+    });
+
+    middleware(entry, next);
+    middleware(entry, next);
+    vi.advanceTimersByTime(1000);
+
+    expect(next.mock.calls[0][0].meta).toEqual({
+      chargePointId: "CP-1",
+      duplicateCount: 2,
+    });
+    expect(entry.meta).toEqual({ chargePointId: "CP-1" });
+  });
+
   it("should handle different logs separately", () => {
     const middleware = deduplicationMiddleware({ windowMs: 1000 });
     const next = vi.fn();
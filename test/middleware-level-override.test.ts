@@ -23,10 +23,11 @@ describe("Level Override Middleware", () => {
     } as LogEntry;
 
     middleware(entry, next);
+    const forwarded = next.mock.calls[0][0] as LogEntry;
 
-    expect(entry.level).toBe(50);
-    expect(entry.levelName).toBe("ERROR");
-    expect((entry.meta as any)["x-log-level"]).toBeUndefined(); // Cleanup default true
+    expect(forwarded.level).toBe(50);
+    expect(forwarded.levelName).toBe("ERROR");
+    expect((forwarded.meta as any)["x-log-level"]).toBeUndefined(); // Cleanup default true
   });
 
   it("should upgrade level if key present in context", () => {
@@ -38,9 +39,10 @@ describe("Level Override Middleware", () => {
     } as LogEntry;
 
     middleware(entry, next);
+    const forwarded = next.mock.calls[0][0] as LogEntry;
 
-    expect(entry.level).toBe(20);
-    expect(entry.levelName).toBe("DEBUG");
+    expect(forwarded.level).toBe(20);
+    expect(forwarded.levelName).toBe("DEBUG");
   });
 
   it("should upgrade level if key present in headers (in meta)", () => {
@@ -52,9 +54,10 @@ describe("Level Override Middleware", () => {
     } as LogEntry;
 
     middleware(entry, next);
+    const forwarded = next.mock.calls[0][0] as LogEntry;
 
-    expect(entry.level).toBe(60);
-    expect(entry.levelName).toBe("FATAL");
+    expect(forwarded.level).toBe(60);
+    expect(forwarded.levelName).toBe("FATAL");
   });
 
   it("should verify custom key and cleanup behavior", () => {
@@ -69,10 +72,11 @@ describe("Level Override Middleware", () => {
     } as LogEntry;
 
     middleware(entry, next);
+    const forwarded = next.mock.calls[0][0] as LogEntry;
 
-    expect(entry.level).toBe(10);
-    expect(entry.levelName).toBe("TRACE");
-    expect((entry.meta as any)["debug-mode"]).toBe("TRACE"); // No cleanup
+    expect(forwarded.level).toBe(10);
+    expect(forwarded.levelName).toBe("TRACE");
+    expect((forwarded.meta as any)["debug-mode"]).toBe("TRACE"); // No cleanup
   });
 
   it("should ignore invalid level strings", () => {
@@ -91,4 +95,21 @@ describe("Level Override Middleware", () => {
     // Implementation: "if (LogLevel[upperName]) { ... }"
     // So if it doesn't match, it skips everything including cleanup.
   });
+
+  it("should not mutate the caller's meta or headers", () => {
+    const middleware = levelOverrideMiddleware();
+    const next = vi.fn();
+    const headers = { "x-log-level": "ERROR", host: "csms" };
+    const meta = { "x-log-level": "ERROR", headers };
+    const entry = { ...mockEntry, meta } as LogEntry;
+
+    middleware(entry, next);
+    const forwarded = next.mock.calls[0][0] as LogEntry;
+
+    expect(forwarded.level).toBe(50);
+    expect(forwarded.meta).toEqual({ headers: { host: "csms" } });
+    expect(entry.level).toBe(30);
+    expect(meta["x-log-level"]).toBe("ERROR");
+    expect(headers["x-log-level"]).toBe("ERROR");
+  });
 });
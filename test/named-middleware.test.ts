@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createLogger,
+  type LogEntry,
+  type LogMiddleware,
+  samplingMiddleware,
+  type Transport,
+} from "../src/index.js";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Appends `tag` to meta.trail so tests can see the order middleware ran */
+const tagger =
+  (tag: string): LogMiddleware =>
+  (entry, next) => {
+    const trail = (entry.meta.trail as string[] | undefined) ?? [];
+    next({ ...entry, meta: { ...entry.meta, trail: [...trail, tag] } });
+  };
+
+describe("Named Middleware", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+  });
+
+  it("should list built-in and user middleware in order", () => {
+    const logger = createLogger({
+      redact: ["password"],
+      middleware: [
+        samplingMiddleware(),
+        { name: "enrich", middleware: tagger("enrich") },
+        (e, next) => next(e),
+      ],
+      alerts: [{ name: "a", when: () => false, onAlert: () => {} }],
+      exchangeLog: true,
+    });
+
+    expect(logger.listMiddleware()).toEqual([
+      "redaction",
+      "sampling",
+      "enrich",
+      "middleware",
+      "alerts",
+      "exchangeLog",
+    ]);
+  });
+
+  it("should suffix duplicate function names", () => {
+    const logger = createLogger({
+      middleware: [samplingMiddleware(), samplingMiddleware()],
+    });
+    expect(logger.listMiddleware()).toEqual(["sampling", "sampling#2"]);
+  });
+
+  it("should reject duplicate explicit names", () => {
+    const logger = createLogger({ redact: ["password"] });
+    expect(() => logger.addMiddleware(tagger("x"), "redaction")).toThrow(
+      '[voltlog] Middleware "redaction" is already registered',
+    );
+  });
+
+  it("should insert before and after named middleware", () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [
+        { name: "a", middleware: tagger("a") },
+        { name: "c", middleware: tagger("c") },
+      ],
+    });
+
+    logger.insertMiddleware(tagger("b"), { name: "b", after: "a" });
+    logger.insertMiddleware(tagger("first"), { name: "first", before: "a" });
+    logger.info("test");
+
+    expect(logger.listMiddleware()).toEqual(["first", "a", "b", "c"]);
+    expect(entries[0]!.meta.trail).toEqual(["first", "a", "b", "c"]);
+  });
+
+  it("should throw when the anchor does not exist", () => {
+    const logger = createLogger();
+    expect(() =>
+      logger.insertMiddleware(tagger("x"), { before: "missing" }),
+    ).toThrow('[voltlog] No middleware named "missing"');
+  });
+
+  it("should remove middleware by name", () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [samplingMiddleware({ maxPerWindow: 1 })],
+    });
+
+    logger.info("same");
+    logger.info("same");
+    expect(logger.removeMiddleware("sampling")).toBe(true);
+    logger.info("same");
+
+    expect(entries).toHaveLength(2);
+    expect(logger.listMiddleware()).toEqual([]);
+    expect(logger.removeMiddleware("sampling")).toBe(false);
+  });
+
+  it("should not change the chain of entries already in flight", async () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [
+        {
+          name: "slow",
+          middleware: async (entry, next) => {
+            await delay(10);
+            next(entry);
+          },
+        },
+      ],
+    });
+
+    logger.info("before");
+    logger.addMiddleware(tagger("late"), "late");
+    logger.info("after");
+    await logger.flush();
+
+    expect(entries.map((e) => e.message)).toEqual(["before", "after"]);
+    expect(entries[0]!.meta.trail).toBeUndefined();
+    expect(entries[1]!.meta.trail).toEqual(["late"]);
+  });
+
+  it("should manage middleware from child loggers", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    const child = logger.child({ cp: "CP-1" });
+
+    child.addMiddleware(tagger("child"), "child");
+    expect(logger.listMiddleware()).toEqual(["child"]);
+    expect(child.removeMiddleware("child")).toBe(true);
+    expect(logger.listMiddleware()).toEqual([]);
+  });
+});
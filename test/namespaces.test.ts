@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createLogger,
+  type LogEntry,
+  LogLevel,
+  parseNamespaces,
+  resolveNamespaceLevel,
+  type Transport,
+} from "../src/index.js";
+
+describe("Namespaces", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("parseNamespaces", () => {
+    it("should parse levels, bare patterns and negations", () => {
+      const rules = parseNamespaces("ocpp:*=DEBUG, db=WARN -noisy billing");
+      expect(rules.map((r) => [r.pattern, r.level])).toEqual([
+        ["ocpp:*", LogLevel.DEBUG],
+        ["db", LogLevel.WARN],
+        ["noisy", LogLevel.SILENT],
+        ["billing", LogLevel.TRACE],
+      ]);
+    });
+
+    it("should prefer the most specific match regardless of order", () => {
+      const rules = parseNamespaces("*=INFO,ocpp:*=DEBUG,ocpp:cp:*=WARN");
+      expect(resolveNamespaceLevel(rules, "ocpp:server")).toBe(LogLevel.DEBUG);
+      expect(resolveNamespaceLevel(rules, "ocpp:cp:CP-101")).toBe(
+        LogLevel.WARN,
+      );
+      expect(resolveNamespaceLevel(rules, "billing")).toBe(LogLevel.INFO);
+    });
+
+    it("should return undefined when nothing matches", () => {
+      const rules = parseNamespaces("db=WARN");
+      expect(resolveNamespaceLevel(rules, "dbx")).toBeUndefined();
+    });
+  });
+
+  it("should stamp the namespace on entries", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.namespace("ocpp:server").info("started");
+    expect(entries[0]!.namespace).toBe("ocpp:server");
+  });
+
+  it("should join nested namespaces and keep them on children", () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      context: { service: "csms" },
+    });
+    const cp = logger.namespace("ocpp").namespace("cp").child({ id: "CP-1" });
+    cp.info("boot");
+    expect(entries[0]!.namespace).toBe("ocpp:cp");
+    expect(entries[0]!.context).toEqual({ service: "csms", id: "CP-1" });
+  });
+
+  it("should decide levels per namespace", () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      namespaces: "ocpp:*=DEBUG,db=WARN,*=INFO",
+      namespacesEnv: false,
+    });
+
+    logger.namespace("ocpp:server").debug("ocpp debug");
+    logger.namespace("db").info("db info");
+    logger.namespace("db").warn("db warn");
+    logger.namespace("billing").debug("billing debug");
+    logger.debug("root debug");
+
+    expect(entries.map((e) => e.message)).toEqual(["ocpp debug", "db warn"]);
+  });
+
+  it("should let an explicit setLevel win over the spec", () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      namespaces: "db=WARN",
+      namespacesEnv: false,
+    });
+    const db = logger.namespace("db");
+    db.setLevel("DEBUG");
+    db.debug("kept");
+    expect(entries).toHaveLength(1);
+  });
+
+  it("should read the spec from the environment", () => {
+    vi.stubEnv("VOLTLOG_NAMESPACES", "db=TRACE");
+    const logger = createLogger({
+      transports: [testTransport],
+      namespaces: "db=ERROR",
+    });
+    logger.namespace("db").trace("from env");
+    expect(entries).toHaveLength(1);
+  });
+
+  it("should read a custom environment variable", () => {
+    vi.stubEnv("MY_LOG_NS", "-db");
+    const logger = createLogger({
+      transports: [testTransport],
+      namespacesEnv: "MY_LOG_NS",
+    });
+    logger.namespace("db").fatal("silenced");
+    expect(entries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { composeMiddleware } from "../src/core/pipeline.js";
+import {
+  createLogger,
+  type LogEntry,
+  type LogMiddleware,
+  type Transport,
+} from "../src/index.js";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("Async Middleware Pipeline", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  // Delays only the entry whose message is "slow"
+  const slowMiddleware: LogMiddleware = async (entry, next) => {
+    if (entry.message === "slow") await delay(20);
+    next(entry);
+  };
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+  });
+
+  it("should keep sync middleware synchronous", () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [(entry, next) => next(entry)],
+    });
+    logger.info("sync");
+    expect(entries).toHaveLength(1);
+  });
+
+  it("should preserve call order behind async middleware", async () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [slowMiddleware],
+    });
+
+    logger.info("slow");
+    logger.info("fast");
+    expect(entries).toHaveLength(0);
+
+    await logger.flush();
+    expect(entries.map((e) => e.message)).toEqual(["slow", "fast"]);
+  });
+
+  it("should allow reordering with orderedMiddleware: false", async () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [slowMiddleware],
+      orderedMiddleware: false,
+    });
+
+    logger.info("slow");
+    logger.info("fast");
+    expect(entries.map((e) => e.message)).toEqual(["fast"]);
+
+    await logger.flush();
+    expect(entries.map((e) => e.message)).toEqual(["fast", "slow"]);
+  });
+
+  it("should wait for in-flight middleware on flush before flushing transports", async () => {
+    const order: string[] = [];
+    const logger = createLogger({
+      transports: [
+        {
+          name: "test",
+          write: (entry) => {
+            order.push(`write:${entry.message}`);
+          },
+          flush: () => {
+            order.push("flush");
+          },
+        },
+      ],
+      middleware: [slowMiddleware],
+    });
+
+    logger.info("slow");
+    await logger.flush();
+    expect(order).toEqual(["write:slow", "flush"]);
+  });
+
+  it("should route async rejections to onMiddlewareError", async () => {
+    const onMiddlewareError = vi.fn();
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [
+        async () => {
+          throw new Error("async boom");
+        },
+      ],
+      onMiddlewareError,
+    });
+
+    logger.info("test");
+    await logger.flush();
+
+    expect(onMiddlewareError).toHaveBeenCalledTimes(1);
+    expect(onMiddlewareError.mock.calls[0]![0].message).toBe("async boom");
+    expect(onMiddlewareError.mock.calls[0]![1].message).toBe("test");
+    expect(entries).toHaveLength(0);
+  });
+
+  it("should route sync throws to onMiddlewareError when provided", () => {
+    const onMiddlewareError = vi.fn();
+    const logger = createLogger({
+      middleware: [
+        () => {
+          throw new Error("sync boom");
+        },
+      ],
+      onMiddlewareError,
+    });
+
+    expect(() => logger.info("test")).not.toThrow();
+    expect(onMiddlewareError).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report async failures to console.error without a handler", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const logger = createLogger({
+      middleware: [
+        async () => {
+          throw new Error("unhandled");
+        },
+      ],
+    });
+
+    logger.info("test");
+    await logger.flush();
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      "[voltlog] Middleware failed",
+      expect.any(Error),
+    );
+    errorSpy.mockRestore();
+  });
+
+  it("should time out slow middleware and ignore its late next()", async () => {
+    const onMiddlewareError = vi.fn();
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [
+        async (entry, next) => {
+          await delay(50);
+          next(entry);
+        },
+      ],
+      middlewareTimeoutMs: 10,
+      onMiddlewareError,
+    });
+
+    logger.info("test");
+    await logger.flush();
+    expect(onMiddlewareError.mock.calls[0]![0].message).toBe(
+      "Middleware timed out after 10ms",
+    );
+
+    await delay(60);
+    expect(entries).toHaveLength(0);
+  });
+
+  it("should keep order across addMiddleware rebuilds", async () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [slowMiddleware],
+    });
+
+    logger.info("slow");
+    logger.addMiddleware((entry, next) => next(entry));
+    logger.info("after rebuild");
+
+    await logger.flush();
+    expect(entries.map((e) => e.message)).toEqual(["slow", "after rebuild"]);
+  });
+
+  describe("composeMiddleware", () => {
+    it("should report idle pipelines as having nothing pending", () => {
+      const pipeline = composeMiddleware([], () => {});
+      pipeline({
+        id: "1",
+        level: 30,
+        levelName: "INFO",
+        message: "m",
+        timestamp: 0,
+        meta: {},
+      });
+      expect(pipeline.pending()).toBeUndefined();
+    });
+  });
+});
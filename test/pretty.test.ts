@@ -105,6 +105,19 @@ describe("Pretty Transport", () => {
       expect(output).toContain("[IN]");
     });
 
+    it("should read chargePointId from bound context", () => {
+      const transport = prettyTransport({ colors: false });
+      transport.write({
+        ...mockEntry,
+        meta: { messageType: "CALL", action: "Heartbeat", direction: "IN" },
+        context: { chargePointId: "CP-CTX" },
+      });
+
+      const output = consoleSpy.mock.calls[0][0];
+      expect(output).toContain("CP-CTX");
+      expect(output).not.toContain("unknown");
+    });
+
     it("should format OCPP CALLRESULT with status and latency", () => {
       const transport = prettyTransport({ colors: false });
       transport.write({
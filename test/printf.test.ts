@@ -0,0 +1,226 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import {
+  createLogger,
+  createLoggerFromConfig,
+  type LogMeta,
+  type OcppExchangeMeta,
+  type PrintfLevelMethod,
+  type PrintfLogger,
+} from "../src/index.js";
+import { formatPrintf, splitPrintfArgs } from "../src/core/printf.js";
+import { browserJsonStreamTransport } from "../src/transports/browser-json-stream.js";
+import { collect } from "./helpers.js";
+
+describe("printf-style messages", () => {
+  describe("formatPrintf", () => {
+    it("should format each specifier", () => {
+      expect(formatPrintf("%s|%d|%i|%f", ["a", "42", 3.9, "1.5x"])).toBe(
+        "a|42|3|1.5",
+      );
+      expect(formatPrintf("%j", [{ a: [1, "b"] }])).toBe('{"a":[1,"b"]}');
+      expect(formatPrintf("%o", [{ a: "x", b: [1] }])).toBe(
+        "{ a: 'x', b: [ 1 ] }",
+      );
+      expect(formatPrintf("%O", [new Map([["k", 1]])])).toBe(
+        "Map(1) { 'k' => 1 }",
+      );
+      expect(formatPrintf("100%% of %s", ["CP-1"])).toBe("100% of CP-1");
+    });
+
+    it("should handle BigInt, symbols and objects", () => {
+      expect(formatPrintf("%d %i %s", [10n, 11n, 12n])).toBe("10n 11n 12n");
+      expect(formatPrintf("%d", [Symbol("x")])).toBe("NaN");
+      expect(formatPrintf("%s", [{ id: 1 }])).toBe("{ id: 1 }");
+      expect(formatPrintf("%s", [new Date(0)])).toBe(String(new Date(0)));
+    });
+
+    it("should not throw on circular values", () => {
+      const a: Record<string, unknown> = { name: "a" };
+      a.self = a;
+      expect(formatPrintf("%j", [a])).toBe("[Circular]");
+      expect(formatPrintf("%o", [a])).toBe("{ name: 'a', self: [Circular] }");
+    });
+
+    it("should leave specifiers without arguments as written", () => {
+      expect(formatPrintf("%s and %d", ["one"])).toBe("one and %d");
+      expect(formatPrintf("50% done", [])).toBe("50% done");
+    });
+  });
+
+  describe("splitPrintfArgs", () => {
+    it("should split values, meta, leftovers and a trailing error", () => {
+      const err = new Error("boom");
+      expect(
+        splitPrintfArgs("%s in %dms", ["CP-1", 42, { a: 1 }, "x", 7, err]),
+      ).toEqual({
+        values: ["CP-1", 42],
+        meta: { a: 1 },
+        rest: ["x", 7],
+        error: err,
+      });
+    });
+
+    it("should not treat class instances or arrays as meta", () => {
+      const date = new Date(0);
+      expect(splitPrintfArgs("done", [date, [1]])).toEqual({
+        values: [],
+        rest: [date, [1]],
+      });
+    });
+  });
+
+  describe("logger", () => {
+    it("should format messages and append leftovers to meta.args", () => {
+      const t = collect();
+      const logger = createLogger({ transports: [t.transport], printf: true });
+
+      logger.info("connected %s in %dms", "CP-101", 42, "extra", 1);
+
+      expect(t.entries[0]!.message).toBe("connected CP-101 in 42ms");
+      expect(t.entries[0]!.meta).toEqual({ args: ["extra", 1] });
+    });
+
+    it("should keep meta and errors after the format values", () => {
+      const t = collect();
+      const logger = createLogger({ transports: [t.transport], printf: true });
+
+      logger.error("%s failed", "Reset", { chargePointId: "CP-1" }, new Error("x"));
+
+      expect(t.entries[0]!.message).toBe("Reset failed");
+      expect(t.entries[0]!.meta).toEqual({ chargePointId: "CP-1" });
+      expect(t.entries[0]!.error?.message).toBe("x");
+    });
+
+    it("should keep the (message, meta) and (message, error) forms", () => {
+      const t = collect();
+      const logger = createLogger({ transports: [t.transport], printf: true });
+
+      logger.info("plain", { a: 1 });
+      logger.error("failed", new Error("boom"));
+
+      expect(t.entries[0]!.meta).toEqual({ a: 1 });
+      expect(t.entries[1]!.error?.message).toBe("boom");
+    });
+
+    it("should append to an existing meta.args", () => {
+      const t = collect();
+      const logger = createLogger({ transports: [t.transport], printf: true });
+
+      logger.info("x", { args: ["a"] }, "b");
+
+      expect(t.entries[0]!.meta).toEqual({ args: ["a", "b"] });
+    });
+
+    it("should not read argument values as template placeholders", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        printf: true,
+        messageTemplates: true,
+        context: { secret: "S3CR3T" },
+      });
+
+      logger.info("user said %s", "{secret}");
+      logger.info("user said %s", "{other}");
+
+      expect(t.entries[0]!.message).toBe("user said {secret}");
+      expect(t.entries[0]!.messageTemplate).toBeUndefined();
+      expect(t.entries[1]!.templateHash).toBeUndefined();
+    });
+
+    it("should be off by default", () => {
+      const t = collect();
+      const logger = createLogger({ transports: [t.transport] });
+
+      logger.info("connected %s", { a: 1 });
+
+      expect(t.entries[0]!.message).toBe("connected %s");
+      expect(t.entries[0]!.meta).toEqual({ a: 1 });
+    });
+
+    it("should not format when the level is disabled", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        printf: true,
+        level: "WARN",
+      });
+      const value = { toString: vi.fn(() => "v") };
+
+      logger.debug("%s", value);
+
+      expect(value.toString).not.toHaveBeenCalled();
+      expect(t.entries).toHaveLength(0);
+    });
+
+    it("should work on child loggers, custom levels and timers", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        printf: true,
+        levels: { AUDIT: 45 },
+      });
+
+      logger.child({ chargePointId: "CP-1" }).warn("%d retries", 3);
+      logger.audit("%s by %s", "Reset", "admin");
+      logger.startTimer().info("%s done", "sync", { rows: 2 });
+
+      expect(t.entries.map((e) => e.message)).toEqual([
+        "3 retries",
+        "Reset by admin",
+        "sync done",
+      ]);
+      expect(t.entries[2]!.meta).toMatchObject({ rows: 2 });
+      expect(t.entries[2]!.meta).toHaveProperty("durationMs");
+    });
+
+    it("should type format arguments only on printf loggers", () => {
+      const strict = createLogger<OcppExchangeMeta>();
+      const printf = createLogger<OcppExchangeMeta>({ printf: true });
+
+      expectTypeOf(strict.info)
+        .parameter(1)
+        .toEqualTypeOf<LogMeta<OcppExchangeMeta> | undefined>();
+      // @ts-expect-error meta is checked against TMeta without printf
+      strict.info("x", { notAField: 1 });
+      expectTypeOf(printf.info).toEqualTypeOf<
+        PrintfLevelMethod<OcppExchangeMeta>
+      >();
+      expectTypeOf(printf.child({}).warn).toEqualTypeOf<
+        PrintfLevelMethod<OcppExchangeMeta>
+      >();
+    });
+
+    it("should accept printf from config", () => {
+      const t = collect();
+      // Config can't narrow the return type, so callers opt in to the printf API
+      const logger = createLoggerFromConfig(
+        { printf: true },
+        { defaults: { transports: [t.transport] } },
+      ) as unknown as PrintfLogger;
+
+      logger.info("%s", "ok");
+
+      expect(t.entries[0]!.message).toBe("ok");
+    });
+
+    it("should reach browserJsonStreamTransport formatted", async () => {
+      const writer = { write: vi.fn(), close: vi.fn(), ready: Promise.resolve() };
+      const logger = createLogger({
+        printf: true,
+        transports: [
+          browserJsonStreamTransport({
+            stream: { getWriter: () => writer } as any,
+          }),
+        ],
+      });
+
+      logger.info("connected %s", "CP-101", "extra");
+      await logger.flush();
+
+      const line = JSON.parse(writer.write.mock.calls[0]![0] as string);
+      expect(line.message).toBe("connected CP-101");
+      expect(line.meta).toEqual({ args: ["extra"] });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLogger, type LogEntry, type Transport } from "../src/index.js";
+
+type Handler = (arg?: unknown) => void;
+
+describe("Process Handlers", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+  let handlers: Map<string, Handler>;
+  let exitSpy: ReturnType<typeof vi.spyOn>;
+  let killSpy: ReturnType<typeof vi.spyOn>;
+
+  const settle = () => new Promise((r) => setTimeout(r, 0));
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+      close: vi.fn(),
+    };
+    handlers = new Map();
+    // Capture handlers instead of registering them on the real process
+    vi.spyOn(process, "on").mockImplementation(((
+      event: string,
+      listener: Handler,
+    ) => {
+      handlers.set(event, listener);
+      return process;
+    }) as typeof process.on);
+    vi.spyOn(process, "off").mockImplementation(((event: string) => {
+      handlers.delete(event);
+      return process;
+    }) as typeof process.off);
+    exitSpy = vi
+      .spyOn(process, "exit")
+      .mockImplementation((() => undefined) as typeof process.exit);
+    killSpy = vi.spyOn(process, "kill").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should register crash, signal and beforeExit handlers", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.installProcessHandlers();
+    expect([...handlers.keys()].sort()).toEqual([
+      "SIGINT",
+      "SIGTERM",
+      "beforeExit",
+      "uncaughtException",
+      "unhandledRejection",
+    ]);
+  });
+
+  it("should log uncaught exceptions as FATAL, close and exit", async () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.installProcessHandlers();
+
+    const err = Object.assign(new Error("boom", { cause: new Error("root") }), {
+      code: "E_BOOM",
+    });
+    handlers.get("uncaughtException")!(err);
+    await settle();
+
+    expect(entries[0]!.levelName).toBe("FATAL");
+    expect(entries[0]!.error!.code).toBe("E_BOOM");
+    expect(entries[0]!.error!.cause!.message).toBe("root");
+    expect(testTransport.close).toHaveBeenCalled();
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it("should wrap non-Error rejection reasons", async () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.installProcessHandlers({ exitOnCrash: false });
+
+    handlers.get("unhandledRejection")!("plain string");
+    await settle();
+
+    expect(entries[0]!.message).toBe("Unhandled promise rejection");
+    expect(entries[0]!.error!.message).toBe("plain string");
+    expect(exitSpy).not.toHaveBeenCalled();
+  });
+
+  it("should close on SIGTERM and re-raise the signal", async () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.installProcessHandlers();
+
+    handlers.get("SIGTERM")!();
+    await settle();
+
+    expect(testTransport.close).toHaveBeenCalledTimes(1);
+    expect(killSpy).toHaveBeenCalledWith(process.pid, "SIGTERM");
+    expect(handlers.size).toBe(0);
+  });
+
+  it("should give up waiting after shutdownTimeoutMs", async () => {
+    vi.useFakeTimers();
+    const logger = createLogger({
+      transports: [
+        { name: "stuck", write: () => {}, close: () => new Promise(() => {}) },
+      ],
+    });
+    logger.installProcessHandlers({ shutdownTimeoutMs: 1000 });
+
+    handlers.get("SIGINT")!();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(killSpy).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(killSpy).toHaveBeenCalledWith(process.pid, "SIGINT");
+    vi.useRealTimers();
+  });
+
+  it("should close only once on beforeExit", async () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.installProcessHandlers();
+
+    handlers.get("beforeExit")!();
+    handlers.get("beforeExit")!();
+    await settle();
+    expect(testTransport.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("should remove its listeners when the logger closes", async () => {
+    vi.restoreAllMocks(); // Count listeners on the real process
+    const events = ["SIGTERM", "SIGINT", "uncaughtException", "beforeExit"];
+    const before = events.map((e) => process.listenerCount(e));
+    const logger = createLogger({ transports: [testTransport] });
+    logger.installProcessHandlers();
+    expect(events.map((e) => process.listenerCount(e))).toEqual(
+      before.map((n) => n + 1),
+    );
+
+    await logger.close();
+    expect(events.map((e) => process.listenerCount(e))).toEqual(before);
+  });
+
+  it("should be idempotent and uninstallable", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    const uninstall = logger.installProcessHandlers();
+    expect(logger.child({}).installProcessHandlers()).toBe(uninstall);
+    expect(process.on).toHaveBeenCalledTimes(5);
+
+    uninstall();
+    expect(handlers.size).toBe(0);
+    logger.installProcessHandlers();
+    expect(handlers.size).toBe(5);
+  });
+});
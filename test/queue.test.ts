@@ -0,0 +1,268 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createLogger,
+  type LogEntry,
+  queueTransport,
+  type Transport,
+} from "../src/index.js";
+
+/** Transport whose async writes stay pending until released */
+function slowTransport() {
+  const written: LogEntry[] = [];
+  const pending: Array<() => void> = [];
+  const transport: Transport = {
+    name: "slow",
+    write(entry) {
+      written.push(entry);
+      return new Promise<void>((resolve) => pending.push(resolve));
+    },
+    flush: vi.fn(),
+  };
+  const releaseAll = async () => {
+    while (pending.length > 0) {
+      pending.shift()!();
+      await new Promise((r) => setTimeout(r, 0));
+    }
+  };
+  return { transport, written, releaseAll };
+}
+
+describe("Queue Transport", () => {
+  let slow: ReturnType<typeof slowTransport>;
+
+  beforeEach(() => {
+    slow = slowTransport();
+  });
+
+  it("should write straight through to sync transports", () => {
+    const entries: LogEntry[] = [];
+    const logger = createLogger({
+      transports: [
+        queueTransport(
+          { name: "sync", write: (e) => void entries.push(e) },
+          { maxQueued: 1 },
+        ),
+      ],
+    });
+
+    for (let i = 0; i < 5; i++) logger.info(`m${i}`);
+    expect(entries).toHaveLength(5);
+  });
+
+  it("should queue behind a pending async write", async () => {
+    const queued = queueTransport(slow.transport, { maxQueued: 10 });
+    const logger = createLogger({ transports: [queued] });
+
+    logger.info("a");
+    logger.info("b");
+    logger.info("c");
+    expect(slow.written.map((e) => e.message)).toEqual(["a"]);
+    expect(queued.queued).toBe(2);
+
+    await slow.releaseAll();
+    expect(slow.written.map((e) => e.message)).toEqual(["a", "b", "c"]);
+    expect(queued.queued).toBe(0);
+  });
+
+  it("should drop the oldest queued entries by default", async () => {
+    const queued = queueTransport(slow.transport, { maxQueued: 2 });
+    const logger = createLogger({ transports: [queued] });
+
+    for (const m of ["a", "b", "c", "d", "e"]) logger.info(m);
+    expect(queued.dropped).toBe(2);
+
+    await slow.releaseAll();
+    const messages = slow.written.map((e) => e.message);
+    expect(messages.slice(0, 3)).toEqual(["a", "d", "e"]);
+  });
+
+  it("should drop incoming entries with drop-newest", async () => {
+    const logger = createLogger({
+      transports: [
+        queueTransport(slow.transport, {
+          maxQueued: 2,
+          dropPolicy: "drop-newest",
+        }),
+      ],
+    });
+
+    for (const m of ["a", "b", "c", "d", "e"]) logger.info(m);
+    await slow.releaseAll();
+    expect(slow.written.slice(0, 3).map((e) => e.message)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("should keep important entries with drop-below-level", async () => {
+    const logger = createLogger({
+      transports: [
+        queueTransport(slow.transport, {
+          maxQueued: 2,
+          dropPolicy: "drop-below-level",
+          dropBelowLevel: "WARN",
+        }),
+      ],
+    });
+
+    logger.info("first");
+    logger.info("info-1");
+    logger.error("error-1");
+    logger.error("error-2"); // evicts info-1
+    logger.info("info-2"); // dropped
+    await slow.releaseAll();
+
+    expect(slow.written.slice(0, 3).map((e) => e.message)).toEqual([
+      "first",
+      "error-1",
+      "error-2",
+    ]);
+  });
+
+  it("should flush instead of dropping with block-on-flush", async () => {
+    const queued = queueTransport(slow.transport, {
+      maxQueued: 1,
+      dropPolicy: "block-on-flush",
+    });
+    const logger = createLogger({ transports: [queued] });
+
+    for (const m of ["a", "b", "c"]) logger.info(m);
+    expect(slow.transport.flush).toHaveBeenCalled();
+    expect(queued.dropped).toBe(0);
+
+    await slow.releaseAll();
+    expect(slow.written.map((e) => e.message)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should bound what block-on-flush holds back", async () => {
+    const queued = queueTransport(slow.transport, {
+      maxQueued: 2,
+      maxWaiting: 3,
+      dropPolicy: "block-on-flush",
+    });
+    const logger = createLogger({ transports: [queued] });
+
+    for (let i = 0; i < 10_000; i++) logger.info(`m${i}`);
+    // One in flight, two queued, three held back; the rest are dropped
+    expect(slow.written).toHaveLength(1);
+    expect(queued.queued).toBe(5);
+    expect(queued.dropped).toBe(10_000 - 6);
+    expect(logger.stats().transports.slow!.queued).toBe(5);
+
+    await slow.releaseAll();
+    expect(slow.written.map((e) => e.message)).toEqual([
+      "m0",
+      "m1",
+      "m2",
+      "m3",
+      "m4",
+      "m5",
+      expect.stringMatching(/^\[voltlog\] Dropped 9994 entries/),
+    ]);
+    expect(queued.queued).toBe(0);
+  });
+
+  it("should settle block-on-flush writes once the entry is queued", async () => {
+    const queued = queueTransport(slow.transport, {
+      maxQueued: 1,
+      dropPolicy: "block-on-flush",
+    });
+    const entry = (message: string) => ({ message }) as LogEntry;
+
+    expect(queued.write(entry("a"))).toBeUndefined();
+    expect(queued.write(entry("b"))).toBeUndefined();
+    let admitted = false;
+    const waiting = queued.write(entry("c"))!.then(() => {
+      admitted = true;
+    });
+    await new Promise((r) => setTimeout(r, 0));
+    expect(admitted).toBe(false);
+
+    await slow.releaseAll();
+    await waiting;
+    expect(admitted).toBe(true);
+  });
+
+  it("should report dropped entries once the backlog drains", async () => {
+    const logger = createLogger({
+      transports: [queueTransport(slow.transport, { maxQueued: 1 })],
+    });
+
+    for (const m of ["a", "b", "c"]) logger.info(m);
+    await slow.releaseAll();
+
+    const report = slow.written[slow.written.length - 1]!;
+    expect(report.levelName).toBe("WARN");
+    expect(report.meta).toEqual({ droppedCount: 1, transport: "slow" });
+  });
+
+  it("should stamp the drop report with the logger's id generator and clock", async () => {
+    const logger = createLogger({
+      transports: [queueTransport(slow.transport, { maxQueued: 1 })],
+      idGenerator: () => "fixed-id",
+      timestamp: () => 42,
+    });
+
+    for (const m of ["a", "b", "c"]) logger.info(m);
+    await slow.releaseAll();
+
+    const report = slow.written[slow.written.length - 1]!;
+    expect(report.message).toMatch(/^\[voltlog\] Dropped 1 entries/);
+    expect(report.id).toBe("fixed-id");
+    expect(report.timestamp).toBe(42);
+  });
+
+  it("should not report drops when reportDrops is false", async () => {
+    const logger = createLogger({
+      transports: [
+        queueTransport(slow.transport, { maxQueued: 1, reportDrops: false }),
+      ],
+    });
+
+    for (const m of ["a", "b", "c"]) logger.info(m);
+    await slow.releaseAll();
+    expect(slow.written.map((e) => e.message)).toEqual(["a", "c"]);
+  });
+
+  it("should wait for the backlog on flush", async () => {
+    const logger = createLogger({
+      transports: [queueTransport(slow.transport, { maxQueued: 10 })],
+    });
+    logger.info("a");
+    logger.info("b");
+
+    let flushed = false;
+    const flushing = logger.flush().then(() => {
+      flushed = true;
+    });
+    await new Promise((r) => setTimeout(r, 0));
+    expect(flushed).toBe(false);
+
+    await slow.releaseAll();
+    await flushing;
+    expect(slow.written).toHaveLength(2);
+  });
+
+  it("should report failed writes and keep draining", async () => {
+    const onTransportError = vi.fn();
+    let calls = 0;
+    const logger = createLogger({
+      transports: [
+        queueTransport({
+          name: "flaky",
+          write: () =>
+            ++calls === 1 ? Promise.reject(new Error("down")) : undefined,
+        }),
+      ],
+      onTransportError,
+    });
+
+    logger.info("a");
+    logger.info("b");
+    await logger.flush();
+
+    expect(calls).toBe(2);
+    expect(onTransportError.mock.calls[0]![0].message).toBe("down");
+  });
+});
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createLogger,
+  type LogEntry,
+  routerTransport,
+  type Transport,
+  withMiddleware,
+} from "../src/index.js";
+import { collect } from "./helpers.js";
+
+describe("Routing", () => {
+  describe("Transport.filter", () => {
+    it("should skip transports whose filter rejects the entry", () => {
+      const audit = collect("audit", {
+        filter: (e) => e.namespace === "billing",
+      });
+      const main = collect("main");
+      const logger = createLogger({
+        transports: [audit.transport, main.transport],
+      });
+
+      logger.namespace("billing").info("invoice");
+      logger.namespace("ocpp").info("boot");
+
+      expect(audit.entries.map((e) => e.message)).toEqual(["invoice"]);
+      expect(main.entries).toHaveLength(2);
+    });
+
+    it("should apply the level before the filter", () => {
+      const filter = vi.fn(() => true);
+      const t = collect("t", { level: "ERROR", filter });
+      const logger = createLogger({ transports: [t.transport] });
+
+      logger.info("skipped");
+      expect(filter).not.toHaveBeenCalled();
+    });
+
+    it("should report a throwing filter as a transport error", () => {
+      const onTransportError = vi.fn();
+      const t = collect("t", {
+        filter: () => {
+          throw new Error("bad filter");
+        },
+      });
+      const logger = createLogger({
+        transports: [t.transport],
+        onTransportError,
+      });
+
+      logger.info("test");
+      expect(t.entries).toHaveLength(0);
+      expect(onTransportError.mock.calls[0]![0].message).toBe("bad filter");
+    });
+
+    it("should keep the filter behind per-transport middleware", () => {
+      const t = collect("t", { filter: (e) => e.level >= 50 });
+      const logger = createLogger({
+        transports: [withMiddleware(t.transport, [(e, next) => next(e)])],
+      });
+      logger.info("skipped");
+      logger.error("kept");
+      expect(t.entries.map((e) => e.message)).toEqual(["kept"]);
+    });
+  });
+
+  describe("routerTransport", () => {
+    let testFile: ReturnType<typeof collect>;
+    let slack: ReturnType<typeof collect>;
+    let main: ReturnType<typeof collect>;
+
+    beforeEach(() => {
+      testFile = collect("test-file");
+      slack = collect("slack");
+      main = collect("main");
+    });
+
+    const routes = () => [
+      {
+        match: (e: LogEntry) =>
+          String(e.context?.chargePointId ?? "").startsWith("TEST-"),
+        transports: [testFile.transport],
+      },
+      {
+        match: (e: LogEntry) => e.meta.messageType === "CALLERROR",
+        transports: [slack.transport, main.transport],
+      },
+    ];
+
+    it("should send entries to the first matching route", () => {
+      const logger = createLogger({
+        transports: [
+          routerTransport({ routes: routes(), fallback: [main.transport] }),
+        ],
+      });
+
+      logger.child({ chargePointId: "TEST-1" }).info("test cp", {
+        messageType: "CALLERROR",
+      });
+      logger.child({ chargePointId: "CP-1" }).warn("error", {
+        messageType: "CALLERROR",
+      });
+      logger.info("other");
+
+      expect(testFile.entries.map((e) => e.message)).toEqual(["test cp"]);
+      expect(slack.entries.map((e) => e.message)).toEqual(["error"]);
+      expect(main.entries.map((e) => e.message)).toEqual(["error", "other"]);
+    });
+
+    it("should send to every matching route in 'all' mode", () => {
+      const logger = createLogger({
+        transports: [routerTransport({ routes: routes(), mode: "all" })],
+      });
+
+      logger.child({ chargePointId: "TEST-1" }).info("both", {
+        messageType: "CALLERROR",
+      });
+
+      expect(testFile.entries).toHaveLength(1);
+      expect(slack.entries).toHaveLength(1);
+    });
+
+    it("should drop unmatched entries without a fallback", () => {
+      const logger = createLogger({
+        transports: [routerTransport({ routes: routes() })],
+      });
+      logger.info("nowhere");
+      expect(main.entries).toHaveLength(0);
+    });
+
+    it("should still apply target levels", () => {
+      const errorsOnly = collect("errors", { level: "ERROR" });
+      const logger = createLogger({
+        transports: [
+          routerTransport({
+            routes: [{ match: () => true, transports: [errorsOnly.transport] }],
+          }),
+        ],
+      });
+      logger.warn("skipped");
+      logger.error("kept");
+      expect(errorsOnly.entries.map((e) => e.message)).toEqual(["kept"]);
+    });
+
+    it("should report failing targets and throwing matchers", () => {
+      const onTransportError = vi.fn();
+      const logger = createLogger({
+        transports: [
+          routerTransport({
+            routes: [
+              {
+                match: () => {
+                  throw new Error("bad match");
+                },
+                transports: [main.transport],
+              },
+            ],
+            fallback: [
+              {
+                name: "failing",
+                write: () => {
+                  throw new Error("write failed");
+                },
+              },
+            ],
+          }),
+        ],
+        onTransportError,
+      });
+
+      logger.info("test");
+      expect(onTransportError.mock.calls.map((c) => c[0].message)).toEqual([
+        "bad match",
+        "write failed",
+      ]);
+    });
+
+    it("should flush and close every target once", async () => {
+      const flush = vi.fn();
+      const close = vi.fn();
+      const shared = collect("shared", { flush, close });
+      const logger = createLogger({
+        transports: [
+          routerTransport({
+            routes: [
+              { match: () => false, transports: [shared.transport] },
+              { match: () => false, transports: [shared.transport] },
+            ],
+            fallback: [shared.transport],
+          }),
+        ],
+      });
+
+      await logger.close();
+      expect(flush).toHaveBeenCalledTimes(1);
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+  });
+});
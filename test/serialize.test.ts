@@ -0,0 +1,284 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  consoleTransport,
+  createLogger,
+  createLoggerFromConfig,
+  type LogEntry,
+  safeStringify,
+} from "../src/index.js";
+import { jsonStreamTransport } from "../src/transports/json-stream.js";
+import { lokiTransport } from "../src/transports/loki.js";
+import { redisTransport } from "../src/transports/redis.js";
+import { webhookTransport } from "../src/transports/webhook.js";
+
+const parse = (value: unknown, options?: Parameters<typeof safeStringify>[1]) =>
+  JSON.parse(safeStringify(value, options));
+
+function makeEntry(meta: Record<string, unknown>): LogEntry {
+  return {
+    id: "e1",
+    seq: 1,
+    level: 30,
+    levelName: "INFO",
+    message: "Boot",
+    timestamp: 1705314600123,
+    meta,
+  };
+}
+
+describe("safeStringify", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("should match JSON.stringify for plain values", () => {
+    const value = { a: 1, b: "x", c: [true, null], d: { e: undefined } };
+    expect(safeStringify(value)).toBe(JSON.stringify(value));
+    expect(safeStringify(value, { space: 2 })).toBe(
+      JSON.stringify(value, null, 2),
+    );
+    expect(safeStringify(undefined)).toBe("null");
+    expect(safeStringify([undefined, () => 1])).toBe("[null,null]");
+  });
+
+  it("should mark circular references", () => {
+    const req: Record<string, unknown> = { url: "/boot" };
+    req.self = req;
+    req.socket = { parent: req };
+
+    expect(parse(req)).toEqual({
+      url: "/boot",
+      self: "[Circular]",
+      socket: { parent: "[Circular]" },
+    });
+  });
+
+  it("should not mark repeated (non-circular) references", () => {
+    const shared = { id: 1 };
+    expect(parse({ a: shared, b: [shared, shared] })).toEqual({
+      a: { id: 1 },
+      b: [{ id: 1 }, { id: 1 }],
+    });
+  });
+
+  it("should write BigInt as a decimal string", () => {
+    expect(parse({ energyWh: 12345678901234567890n })).toEqual({
+      energyWh: "12345678901234567890",
+    });
+  });
+
+  it("should convert Map, Set and typed arrays", () => {
+    expect(
+      parse({
+        map: new Map<string, unknown>([
+          ["CP-1", 1],
+          ["CP-2", new Set(["a"])],
+        ]),
+        objectKeys: new Map([[{ id: 1 }, "x"]]),
+        set: new Set([1, 2]),
+        bytes: new Uint8Array([1, 2, 3]),
+        buffer: Buffer.from("hi"),
+        raw: new Uint16Array([7]).buffer,
+      }),
+    ).toEqual({
+      map: { "CP-1": 1, "CP-2": ["a"] },
+      objectKeys: [[{ id: 1 }, "x"]],
+      set: [1, 2],
+      bytes: [1, 2, 3],
+      buffer: [104, 105],
+      raw: [7, 0],
+    });
+  });
+
+  it("should convert Date and Error", () => {
+    const err = new Error("outer", { cause: new TypeError("inner") });
+    const out = parse({ at: new Date(0), bad: new Date(Number.NaN), err });
+
+    expect(out.at).toBe("1970-01-01T00:00:00.000Z");
+    expect(out.bad).toBeNull();
+    expect(out.err).toMatchObject({
+      name: "Error",
+      message: "outer",
+      cause: { name: "TypeError", message: "inner" },
+    });
+    expect(out.err.stack).toContain("outer");
+  });
+
+  it("should survive getters and toJSON that throw", () => {
+    const value = {
+      ok: 1,
+      get broken() {
+        throw new Error("no socket");
+      },
+      nested: {
+        toJSON() {
+          throw new Error("nope");
+        },
+      },
+    };
+    expect(parse(value)).toEqual({
+      ok: 1,
+      broken: "[Getter threw: no socket]",
+      nested: "[toJSON threw: nope]",
+    });
+  });
+
+  it("should use toJSON when present", () => {
+    expect(parse({ v: { toJSON: () => ({ id: 7n }) } })).toEqual({
+      v: { id: "7" },
+    });
+  });
+
+  it("should never throw", () => {
+    const proxy = new Proxy(
+      {},
+      {
+        ownKeys() {
+          throw new Error("revoked");
+        },
+      },
+    );
+    expect(parse({ proxy })).toEqual({ proxy: "[Keys threw: revoked]" });
+  });
+
+  describe("limits", () => {
+    it("should cut objects below maxDepth", () => {
+      const deep = { a: { b: { c: { d: 1 } } } };
+      expect(parse(deep, { maxDepth: 2 })).toEqual({
+        a: { b: "[Truncated: max depth]" },
+      });
+    });
+
+    it("should cut long arrays, Sets and Maps", () => {
+      const list = [1, 2, 3, 4, 5];
+      expect(parse(list, { maxArrayLength: 2 })).toEqual([
+        1,
+        2,
+        "[Truncated: 3 more items]",
+      ]);
+      expect(parse(new Set(list), { maxArrayLength: 4 })).toEqual([
+        1,
+        2,
+        3,
+        4,
+        "[Truncated: 1 more items]",
+      ]);
+      expect(
+        parse(
+          new Map([
+            ["a", 1],
+            ["b", 2],
+          ]),
+          { maxArrayLength: 1 },
+        ),
+      ).toEqual({ a: 1, "[Truncated]": "1 more entries" });
+    });
+
+    it("should cut long strings", () => {
+      expect(parse({ s: "abcdef" }, { maxStringLength: 2 })).toEqual({
+        s: "ab...[Truncated: 4 more chars]",
+      });
+    });
+
+    it("should apply defaults", () => {
+      const out = parse({
+        list: Array.from({ length: 1001 }, (_, i) => i),
+        text: "x".repeat(100_001),
+      });
+      expect(out.list).toHaveLength(1001);
+      expect(out.list[1000]).toBe("[Truncated: 1 more items]");
+      expect(out.text).toMatch(/\.\.\.\[Truncated: 1 more chars\]$/);
+    });
+  });
+
+  describe("transports", () => {
+    it("should write circular meta through consoleTransport", () => {
+      const spy = vi.spyOn(console, "info").mockImplementation(() => {});
+      const req: Record<string, unknown> = { ip: "10.0.0.1" };
+      req.self = req;
+      const logger = createLogger({ transports: [consoleTransport()] });
+
+      logger.info("request", { req, meterWh: 10n });
+
+      const line = JSON.parse(spy.mock.calls[0]![0] as string);
+      expect(line.meta).toEqual({
+        req: { ip: "10.0.0.1", self: "[Circular]" },
+        meterWh: "10",
+      });
+    });
+
+    it("should apply serializeLimits in jsonStreamTransport", () => {
+      const write = vi.fn();
+      const transport = jsonStreamTransport({
+        stream: { write } as any,
+        serializeLimits: { maxStringLength: 3 },
+      });
+
+      transport.write(makeEntry({ note: "abcdef" }));
+
+      const line = JSON.parse(write.mock.calls[0]![0] as string);
+      expect(line.meta.note).toBe("abc...[Truncated: 3 more chars]");
+    });
+
+    it("should accept serializeLimits from config", () => {
+      const spy = vi.spyOn(console, "info").mockImplementation(() => {});
+      const logger = createLoggerFromConfig({
+        transports: [
+          { type: "console", serializeLimits: { maxArrayLength: 1 } },
+        ],
+      });
+
+      logger.info("ids", { ids: [1, 2] });
+
+      const line = JSON.parse(spy.mock.calls[0]![0] as string);
+      expect(line.meta.ids).toEqual([1, "[Truncated: 1 more items]"]);
+    });
+
+    it("should keep every webhook entry regardless of maxArrayLength", async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+      vi.stubGlobal("fetch", fetchMock);
+      const transport = webhookTransport({
+        url: "https://api.example.com",
+        batchSize: 3,
+        serializeLimits: { maxArrayLength: 1 },
+      });
+
+      transport.write(makeEntry({ n: 1n }));
+      transport.write(makeEntry({ list: [1, 2] }));
+      await transport.write(makeEntry({}));
+
+      const body = JSON.parse(fetchMock.mock.calls[0]![1].body);
+      expect(body.count).toBe(3);
+      expect(body.entries).toHaveLength(3);
+      expect(body.entries[0].meta).toEqual({ n: "1" });
+      expect(body.entries[1].meta.list).toEqual([
+        1,
+        "[Truncated: 1 more items]",
+      ]);
+    });
+
+    it("should serialize circular meta for loki and redis", async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+      vi.stubGlobal("fetch", fetchMock);
+      const meta: Record<string, unknown> = { n: 5n };
+      meta.self = meta;
+
+      await lokiTransport({ host: "http://loki", batchSize: 1 }).write(
+        makeEntry(meta),
+      );
+      const body = JSON.parse(fetchMock.mock.calls[0]![1].body);
+      // The line spreads meta into a new object, so the cycle closes one level down
+      expect(JSON.parse(body.streams[0].values[0][1])).toMatchObject({
+        n: "5",
+        self: { n: "5", self: "[Circular]" },
+      });
+
+      const xadd = vi.fn().mockResolvedValue("1-0");
+      redisTransport({ client: { xadd } }).write(makeEntry(meta));
+      const args = xadd.mock.calls[0] as string[];
+      const data = JSON.parse(args[args.indexOf("data") + 1]!);
+      expect(data.meta).toEqual({ n: "5", self: "[Circular]" });
+    });
+  });
+});
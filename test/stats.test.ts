@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createLogger,
+  deduplicationMiddleware,
+  formatStatsPrometheus,
+  type LogEntry,
+  queueTransport,
+  samplingMiddleware,
+  type Transport,
+} from "../src/index.js";
+
+describe("Logger Stats", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should count emitted entries per level", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.info("a");
+    logger.info("b");
+    logger.error("c");
+    logger.debug("filtered by level");
+
+    expect(logger.stats().emitted).toEqual({ INFO: 2, ERROR: 1 });
+  });
+
+  it("should attribute drops to the sampling middleware", () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [samplingMiddleware({ maxPerWindow: 1 })],
+    });
+    logger.info("same");
+    logger.info("same");
+    logger.info("same");
+
+    expect(logger.stats().dropped).toEqual({
+      total: 2,
+      byMiddleware: { sampling: 2 },
+    });
+  });
+
+  it("should not count entries deduplication forwards later", () => {
+    vi.useFakeTimers();
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [deduplicationMiddleware({ windowMs: 100 })],
+    });
+    logger.info("dup");
+    logger.info("dup");
+    logger.info("dup");
+    vi.advanceTimersByTime(100);
+
+    expect(entries).toHaveLength(1);
+    expect(logger.stats().dropped.byMiddleware).toEqual({ deduplication: 2 });
+  });
+
+  it("should count drops by anonymous middleware under generated names", () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [(e, next) => next(e), () => {}],
+    });
+    logger.info("dropped");
+    expect(logger.stats().dropped.byMiddleware).toEqual({ "middleware#2": 1 });
+  });
+
+  it("should count drops by async middleware once settled", async () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [async function asyncFilter() {}],
+    });
+    logger.info("dropped");
+    await logger.flush();
+    expect(logger.stats().dropped.byMiddleware).toEqual({ asyncFilter: 1 });
+  });
+
+  it("should track transport writes, failures and latency", async () => {
+    const logger = createLogger({
+      transports: [
+        testTransport,
+        { name: "failing", write: () => Promise.reject(new Error("down")) },
+      ],
+    });
+    logger.info("a");
+    logger.info("b");
+    await logger.flush();
+    await Promise.resolve();
+
+    const { transports } = logger.stats();
+    expect(transports.test).toMatchObject({ writes: 2, failures: 0, queued: 0 });
+    expect(transports.failing).toMatchObject({ writes: 2, failures: 2 });
+    expect(transports.test!.avgLatencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should count failures reported outside write()", () => {
+    let report: ((err: unknown, e: LogEntry[]) => void) | undefined;
+    const logger = createLogger({
+      transports: [
+        {
+          name: "batched",
+          write: () => {},
+          setErrorReporter: (r) => {
+            report = r;
+          },
+        },
+      ],
+      onTransportError: () => {},
+    });
+    const entry: LogEntry = {
+      id: "1",
+      level: 30,
+      levelName: "INFO",
+      message: "m",
+      timestamp: 0,
+      meta: {},
+    };
+    report!(new Error("HTTP 500"), [entry, entry]);
+    expect(logger.stats().transports.batched!.failures).toBe(2);
+  });
+
+  it("should report queue depth from queued transports", () => {
+    const logger = createLogger({
+      transports: [
+        queueTransport({ name: "slow", write: () => new Promise(() => {}) }),
+      ],
+    });
+    logger.info("in flight");
+    logger.info("queued 1");
+    logger.info("queued 2");
+    expect(logger.stats().transports.slow!.queued).toBe(2);
+  });
+
+  it("should be shared with child loggers", () => {
+    const logger = createLogger({ transports: [testTransport] });
+    logger.child({ cp: "CP-1" }).warn("child");
+    expect(logger.child({}).stats().emitted).toEqual({ WARN: 1 });
+  });
+
+  it("should log stats periodically until closed", async () => {
+    vi.useFakeTimers();
+    const logger = createLogger({
+      transports: [testTransport],
+      statsInterval: { intervalMs: 1000 },
+    });
+    logger.info("a");
+    vi.advanceTimersByTime(1000);
+
+    const statsEntry = entries[1]!;
+    expect(statsEntry.message).toBe("[voltlog] Logger stats");
+    expect(statsEntry.meta.stats).toMatchObject({ emitted: { INFO: 1 } });
+
+    await logger.close();
+    vi.advanceTimersByTime(5000);
+    expect(entries).toHaveLength(2);
+  });
+
+  it("should render a Prometheus snapshot", () => {
+    const logger = createLogger({
+      transports: [testTransport],
+      middleware: [samplingMiddleware({ maxPerWindow: 1 })],
+    });
+    logger.info("x");
+    logger.info("x");
+
+    const text = formatStatsPrometheus(logger.stats());
+    expect(text).toContain("# TYPE voltlog_entries_emitted_total counter");
+    expect(text).toContain('voltlog_entries_emitted_total{level="INFO"} 1');
+    expect(text).toContain(
+      'voltlog_entries_dropped_total{middleware="sampling"} 1',
+    );
+    expect(text).toContain('voltlog_transport_writes_total{transport="test"} 1');
+    expect(text.endsWith("\n")).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  consoleTransport,
+  createLogger,
+  createLoggerFromConfig,
+  formatTimestamp,
+  hrEpochNs,
+  jsonStreamTransport,
+  type LogEntry,
+  prettyTransport,
+} from "../src/index.js";
+import { lokiTransport } from "../src/transports/loki.js";
+import { collect } from "./helpers.js";
+
+const entry = {
+  timestamp: 1705314600123,
+  timestampNs: "1705314600123456789",
+};
+
+describe("High-resolution timestamps", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe("hrEpochNs", () => {
+    it("should track Date.now() with sub-millisecond precision", () => {
+      const before = BigInt(Date.now()) * 1_000_000n;
+      const a = hrEpochNs();
+      const b = hrEpochNs();
+      const after = BigInt(Date.now() + 2) * 1_000_000n;
+
+      expect(b).toBeGreaterThan(a);
+      expect(a).toBeGreaterThanOrEqual(before - 1_000_000n);
+      expect(b).toBeLessThanOrEqual(after);
+    });
+  });
+
+  describe("formatTimestamp", () => {
+    it("should format epoch-ms, rfc3339nano and iso", () => {
+      expect(formatTimestamp(entry, "epoch-ms")).toBe(1705314600123);
+      expect(formatTimestamp(entry, "rfc3339nano")).toBe(
+        "2024-01-15T10:30:00.123456789Z",
+      );
+      expect(formatTimestamp(entry, "iso")).toMatch(
+        /^2024-01-1[45]T\d{2}:\d{2}:00\.123[+-]\d{2}:\d{2}$/,
+      );
+    });
+
+    it("should render the local offset in iso", () => {
+      vi.spyOn(Date.prototype, "getTimezoneOffset").mockReturnValue(-330);
+      expect(formatTimestamp(entry, "iso")).toMatch(/\+05:30$/);
+    });
+
+    it("should trim trailing zeros in rfc3339nano", () => {
+      expect(formatTimestamp({ timestamp: 1705314600120 }, "rfc3339nano")).toBe(
+        "2024-01-15T10:30:00.12Z",
+      );
+      expect(formatTimestamp({ timestamp: 1705314600000 }, "rfc3339nano")).toBe(
+        "2024-01-15T10:30:00Z",
+      );
+    });
+  });
+
+  describe("logger", () => {
+    it("should stamp timestampNs consistent with timestamp", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        hrTimestamps: true,
+      });
+
+      logger.info("CALL");
+      logger.info("CALLRESULT");
+
+      const [call, result] = t.entries;
+      expect(call!.timestampNs).toMatch(/^\d{19}$/);
+      expect(BigInt(call!.timestampNs!) / 1_000_000n).toBe(
+        BigInt(call!.timestamp),
+      );
+      expect(BigInt(result!.timestampNs!)).toBeGreaterThan(
+        BigInt(call!.timestampNs!),
+      );
+    });
+
+    it("should keep a custom timestamp function", () => {
+      const t = collect();
+      const logger = createLogger({
+        transports: [t.transport],
+        hrTimestamps: true,
+        timestamp: () => 42,
+      });
+
+      logger.info("a");
+
+      expect(t.entries[0]!.timestamp).toBe(42);
+      expect(t.entries[0]!.timestampNs).toBeDefined();
+    });
+
+    it("should be off by default", () => {
+      const t = collect();
+      createLogger({ transports: [t.transport] }).info("a");
+      expect(t.entries[0]!.timestampNs).toBeUndefined();
+    });
+
+    it("should accept hrTimestamps from config", () => {
+      const t = collect();
+      createLoggerFromConfig(
+        { hrTimestamps: true },
+        { defaults: { transports: [t.transport] } },
+      ).info("a");
+      expect(t.entries[0]!.timestampNs).toBeDefined();
+    });
+  });
+
+  describe("transports", () => {
+    const logEntry: LogEntry = {
+      id: "1",
+      seq: 1,
+      level: 30,
+      levelName: "INFO",
+      message: "m",
+      meta: {},
+      ...entry,
+    };
+
+    it("should write the chosen format from JSON transports", () => {
+      const write = vi.fn();
+      jsonStreamTransport({
+        stream: { write } as any,
+        timestampFormat: "rfc3339nano",
+      }).write(logEntry);
+
+      expect(JSON.parse(write.mock.calls[0]![0]).timestamp).toBe(
+        "2024-01-15T10:30:00.123456789Z",
+      );
+    });
+
+    it("should keep epoch ms by default", () => {
+      const spy = vi.spyOn(console, "info").mockImplementation(() => {});
+      consoleTransport().write(logEntry);
+      expect(JSON.parse(spy.mock.calls[0]![0]).timestamp).toBe(1705314600123);
+    });
+
+    it("should let prettyTransport choose its format", () => {
+      const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+      prettyTransport({ timestampFormat: "rfc3339nano", colors: false }).write(
+        logEntry,
+      );
+      expect(spy.mock.calls[0]![0]).toContain("2024-01-15T10:30:00.123456789Z");
+    });
+
+    it("should push full precision to Loki", async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+      vi.stubGlobal("fetch", fetchMock);
+      const transport = lokiTransport({ host: "http://loki", batchSize: 2 });
+
+      transport.write({ ...logEntry, seq: 2, timestampNs: "1705314600123456790" });
+      await transport.write(logEntry);
+
+      const body = JSON.parse(fetchMock.mock.calls[0]![1].body);
+      expect(body.streams[0].values.map((v: string[]) => v[0])).toEqual([
+        "1705314600123456789",
+        "1705314600123456790",
+      ]);
+    });
+  });
+});
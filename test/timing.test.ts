@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLogger, type LogEntry, type Transport } from "../src/index.js";
+
+describe("Timing", () => {
+  let entries: LogEntry[];
+  let testTransport: Transport;
+  let clock: number;
+
+  beforeEach(() => {
+    entries = [];
+    testTransport = {
+      name: "test",
+      write(entry: LogEntry) {
+        entries.push(entry);
+      },
+    };
+    clock = 1000;
+    vi.spyOn(performance, "now").mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("startTimer", () => {
+    it("should stamp durationMs on the entry meta", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const done = logger.startTimer();
+      clock += 12.3456;
+
+      done.info("BootNotification handled", { action: "BootNotification" });
+
+      expect(entries[0]!.levelName).toBe("INFO");
+      expect(entries[0]!.meta).toEqual({
+        action: "BootNotification",
+        durationMs: 12.346,
+      });
+    });
+
+    it("should support the error argument forms", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const done = logger.startTimer();
+      clock += 5;
+
+      done.error("Handler failed", new Error("boom"));
+
+      expect(entries[0]!.meta).toEqual({ durationMs: 5 });
+      expect(entries[0]!.error!.message).toBe("boom");
+    });
+
+    it("should add durationMs to lazy meta", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const done = logger.startTimer();
+      clock += 1;
+
+      done.info(() => ["lazy", { rows: 3 }]);
+
+      expect(entries[0]!.message).toBe("lazy");
+      expect(entries[0]!.meta).toEqual({ rows: 3, durationMs: 1 });
+    });
+
+    it("should report elapsed time without logging", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const done = logger.startTimer();
+      clock += 7;
+      expect(done.elapsed()).toBe(7);
+      expect(entries).toHaveLength(0);
+    });
+
+    it("should respect the logger level", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      logger.startTimer().debug("dropped");
+      expect(entries).toHaveLength(0);
+    });
+
+    it("should keep child context", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const done = logger.child({ chargePointId: "CP-101" }).startTimer();
+      done.info("handled");
+      expect(entries[0]!.context).toEqual({ chargePointId: "CP-101" });
+      expect(entries[0]!.meta).toHaveProperty("durationMs");
+    });
+  });
+
+  describe("time", () => {
+    it("should log success for sync functions and return the result", () => {
+      const logger = createLogger({ transports: [testTransport] });
+
+      const result = logger.time("compute", () => {
+        clock += 2;
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      expect(entries[0]!.message).toBe("compute");
+      expect(entries[0]!.meta).toEqual({ durationMs: 2 });
+    });
+
+    it("should log failure for sync throws and rethrow", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      const err = new Error("sync fail");
+
+      expect(() =>
+        logger.time("compute", () => {
+          throw err;
+        }),
+      ).toThrow(err);
+      expect(entries[0]!.levelName).toBe("ERROR");
+      expect(entries[0]!.message).toBe("compute failed");
+      expect(entries[0]!.error!.message).toBe("sync fail");
+    });
+
+    it("should wait for async functions", async () => {
+      const logger = createLogger({ transports: [testTransport] });
+
+      const promise = logger.time(
+        "db.fetchTariffs",
+        async () => {
+          clock += 30;
+          return ["t-1"];
+        },
+        { table: "tariffs" },
+      );
+      expect(entries).toHaveLength(0);
+
+      await expect(promise).resolves.toEqual(["t-1"]);
+      expect(entries[0]!.meta).toEqual({ table: "tariffs", durationMs: 30 });
+    });
+
+    it("should log async rejections and pass them through", async () => {
+      const logger = createLogger({ transports: [testTransport] });
+
+      await expect(
+        logger.time("db.write", () => Promise.reject("ECONNREFUSED")),
+      ).rejects.toBe("ECONNREFUSED");
+      expect(entries[0]!.message).toBe("db.write failed");
+      expect(entries[0]!.error!.message).toBe("ECONNREFUSED");
+    });
+
+    it("should work on child loggers", () => {
+      const logger = createLogger({ transports: [testTransport] });
+      logger.child({ chargePointId: "CP-101" }).time("handle", () => {});
+      expect(entries[0]!.context).toEqual({ chargePointId: "CP-101" });
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  assertHttpOk,
+  createLogger,
+  type LogEntry,
+  lokiTransport,
+  slackTransport,
+  type Transport,
+  TransportHttpError,
+  webhookTransport,
+} from "../src/index.js";
+
+// Mock fetch
+const fetchMock = vi.fn();
+global.fetch = fetchMock;
+
+describe("Transport Error Reporting", () => {
+  let fallbackEntries: LogEntry[];
+  let fallback: Transport;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fallbackEntries = [];
+    fallback = {
+      name: "fallback",
+      write(entry) {
+        fallbackEntries.push(entry);
+      },
+    };
+  });
+
+  it("should report sync transport throws to onTransportError", () => {
+    const onTransportError = vi.fn();
+    const failing: Transport = {
+      name: "failing",
+      write: () => {
+        throw new Error("Boom");
+      },
+    };
+    const logger = createLogger({ transports: [failing], onTransportError });
+
+    logger.info("test");
+
+    expect(onTransportError).toHaveBeenCalledTimes(1);
+    const [error, transport, entry] = onTransportError.mock.calls[0]!;
+    expect(error.message).toBe("Boom");
+    expect(transport).toBe(failing);
+    expect(entry.message).toBe("test");
+  });
+
+  it("should report async transport rejections to onTransportError", async () => {
+    const onTransportError = vi.fn();
+    const logger = createLogger({
+      transports: [
+        { name: "failing", write: () => Promise.reject(new Error("Async")) },
+      ],
+      onTransportError,
+    });
+
+    logger.info("test");
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(onTransportError).toHaveBeenCalledTimes(1);
+    expect(onTransportError.mock.calls[0]![0].message).toBe("Async");
+  });
+
+  it("should send rejected entries to the fallback transport", () => {
+    const logger = createLogger({
+      transports: [
+        {
+          name: "failing",
+          write: () => {
+            throw new Error("Boom");
+          },
+        },
+      ],
+      fallbackTransport: fallback,
+    });
+
+    logger.info("rescued");
+    expect(fallbackEntries.map((e) => e.message)).toEqual(["rescued"]);
+  });
+
+  it("should not let a throwing error handler escape", () => {
+    const logger = createLogger({
+      transports: [
+        {
+          name: "failing",
+          write: () => {
+            throw new Error("Boom");
+          },
+        },
+      ],
+      onTransportError: () => {
+        throw new Error("handler");
+      },
+      fallbackTransport: fallback,
+    });
+
+    expect(() => logger.info("test")).not.toThrow();
+    expect(fallbackEntries).toHaveLength(1);
+  });
+
+  it("should report non-OK HTTP responses from slack", async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 500,
+      statusText: "Server Error",
+    });
+    const onTransportError = vi.fn();
+    const logger = createLogger({
+      transports: [slackTransport({ webhookUrl: "https://slack.com/hook" })],
+      onTransportError,
+      fallbackTransport: fallback,
+    });
+
+    logger.error("down");
+    await logger.flush();
+    await vi.waitFor(() => expect(onTransportError).toHaveBeenCalled());
+
+    const error = onTransportError.mock.calls[0]![0];
+    expect(error).toBeInstanceOf(TransportHttpError);
+    expect(error.status).toBe(500);
+    expect(error.transport).toBe("slack");
+    expect(fallbackEntries).toHaveLength(1);
+  });
+
+  it("should report every entry of a failed loki batch", async () => {
+    fetchMock.mockRejectedValue(new Error("ECONNREFUSED"));
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const onTransportError = vi.fn();
+    const logger = createLogger({
+      transports: [lokiTransport({ host: "http://loki:3100", batchSize: 10 })],
+      onTransportError,
+      fallbackTransport: fallback,
+    });
+
+    logger.info("a");
+    logger.info("b");
+    await logger.flush();
+
+    expect(onTransportError).toHaveBeenCalledTimes(2);
+    expect(fallbackEntries.map((e) => e.message)).toEqual(["a", "b"]);
+    // Reporter replaces the default console.error output
+    expect(errorSpy).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it("should report webhook failures after retries are exhausted", async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 503 });
+    const onTransportError = vi.fn();
+    const logger = createLogger({
+      transports: [
+        webhookTransport({ url: "https://api.example.com", batchSize: 5 }),
+      ],
+      onTransportError,
+    });
+
+    logger.info("lost");
+    await logger.flush();
+
+    expect(onTransportError).toHaveBeenCalledTimes(1);
+    expect(onTransportError.mock.calls[0]![0].status).toBe(503);
+  });
+
+  it("should count reported failures without a handler or fallback", async () => {
+    fetchMock.mockRejectedValue(new Error("ECONNREFUSED"));
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const logger = createLogger({
+      transports: [lokiTransport({ host: "http://loki:3100", batchSize: 10 })],
+    });
+
+    logger.info("a");
+    await logger.flush();
+
+    expect(logger.stats().transports.loki).toMatchObject({
+      writes: 1,
+      failures: 1,
+    });
+    // Without a handler the transport keeps its default console.error output
+    expect(errorSpy).toHaveBeenCalledWith(
+      "[voltlog] Loki push failed",
+      expect.any(Error),
+    );
+    errorSpy.mockRestore();
+  });
+
+  describe("assertHttpOk", () => {
+    it("should pass OK responses", () => {
+      expect(() => assertHttpOk({ ok: true }, "api")).not.toThrow();
+    });
+
+    it("should throw TransportHttpError with status details", () => {
+      expect(() =>
+        assertHttpOk({ ok: false, status: 429, statusText: "Too Many" }, "api"),
+      ).toThrow("[voltlog] api transport received HTTP 429 Too Many");
+    });
+  });
+});
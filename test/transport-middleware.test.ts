@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  batchTransport,
+  createLogger,
+  type LogEntry,
+  queueTransport,
+  redactionMiddleware,
+  type Transport,
+  withMiddleware,
+} from "../src/index.js";
+import { collect } from "./helpers.js";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("Per-Transport Middleware", () => {
+  let file: ReturnType<typeof collect>;
+  let datadog: ReturnType<typeof collect>;
+  let slack: ReturnType<typeof collect>;
+
+  beforeEach(() => {
+    file = collect("file");
+    datadog = collect("datadog");
+    slack = collect("slack");
+  });
+
+  it("should apply each chain to its own transport only", () => {
+    const logger = createLogger({
+      transports: [
+        file.transport,
+        withMiddleware(datadog.transport, [
+          redactionMiddleware({ paths: ["idTag"] }),
+        ]),
+        withMiddleware(slack.transport, [
+          (entry, next) => next({ ...entry, meta: {} }),
+        ]),
+      ],
+    });
+
+    logger.info("Authorize", { idTag: "ABC123", action: "Authorize" });
+
+    expect(file.entries[0]!.meta).toEqual({
+      idTag: "ABC123",
+      action: "Authorize",
+    });
+    expect(datadog.entries[0]!.meta).toEqual({
+      idTag: "[REDACTED]",
+      action: "Authorize",
+    });
+    expect(slack.entries[0]!.meta).toEqual({});
+  });
+
+  it("should give each chain a copy that others cannot see", () => {
+    const mutate = (entry: LogEntry, next: (e: LogEntry) => void) => {
+      entry.meta.touched = true;
+      entry.message = "changed";
+      next(entry);
+    };
+    const logger = createLogger({
+      transports: [withMiddleware(datadog.transport, [mutate]), file.transport],
+    });
+
+    logger.info("original", { a: 1 });
+
+    expect(datadog.entries[0]!.message).toBe("changed");
+    expect(file.entries[0]!.message).toBe("original");
+    expect(file.entries[0]!.meta).toEqual({ a: 1 });
+  });
+
+  it("should run after the global pipeline", () => {
+    const order: string[] = [];
+    const logger = createLogger({
+      transports: [
+        withMiddleware(file.transport, [
+          (e, next) => {
+            order.push("transport");
+            next(e);
+          },
+        ]),
+      ],
+      middleware: [
+        (e, next) => {
+          order.push("global");
+          next(e);
+        },
+      ],
+    });
+
+    logger.info("test");
+    expect(order).toEqual(["global", "transport"]);
+  });
+
+  it("should let a chain drop entries for its transport", () => {
+    const logger = createLogger({
+      transports: [
+        file.transport,
+        withMiddleware(slack.transport, [
+          (e, next) => {
+            if (e.level >= 50) next(e);
+          },
+        ]),
+      ],
+    });
+
+    logger.info("info");
+    logger.error("error");
+
+    expect(file.entries).toHaveLength(2);
+    expect(slack.entries.map((e) => e.message)).toEqual(["error"]);
+  });
+
+  it("should wait for async transport middleware on flush", async () => {
+    const logger = createLogger({
+      transports: [
+        withMiddleware(file.transport, [
+          async (e, next) => {
+            await delay(10);
+            next(e);
+          },
+        ]),
+      ],
+    });
+
+    logger.info("slow");
+    expect(file.entries).toHaveLength(0);
+    await logger.flush();
+    expect(file.entries).toHaveLength(1);
+  });
+
+  it("should report write failures behind a chain", () => {
+    const onTransportError = vi.fn();
+    const logger = createLogger({
+      transports: [
+        withMiddleware(
+          {
+            name: "failing",
+            write: () => {
+              throw new Error("boom");
+            },
+          },
+          [(e, next) => next(e)],
+        ),
+      ],
+      onTransportError,
+    });
+
+    logger.info("test");
+    expect(onTransportError.mock.calls[0]![0].message).toBe("boom");
+    expect(logger.stats().transports.failing!.failures).toBe(1);
+  });
+
+  it("should append to existing middleware without changing the original", () => {
+    const first = withMiddleware(file.transport, [(e, next) => next(e)]);
+    const second = withMiddleware(first, [(e, next) => next(e)]);
+
+    expect(file.transport.middleware).toBeUndefined();
+    expect(first.middleware).toHaveLength(1);
+    expect(second.middleware).toHaveLength(2);
+    expect(second.name).toBe("file");
+  });
+
+  it("should run the chain of a transport wrapped in queueTransport", async () => {
+    const logger = createLogger({
+      transports: [
+        queueTransport(
+          withMiddleware(datadog.transport, [
+            redactionMiddleware({ paths: ["password"] }),
+          ]),
+        ),
+      ],
+    });
+
+    logger.info("login", { password: "hunter2" });
+    await logger.flush();
+
+    expect(datadog.entries[0]!.meta).toEqual({ password: "[REDACTED]" });
+  });
+
+  it("should run the chain of a transport wrapped in batchTransport", async () => {
+    const logger = createLogger({
+      transports: [
+        batchTransport(
+          withMiddleware(datadog.transport, [
+            redactionMiddleware({ paths: ["password"] }),
+          ]),
+          { batchSize: 10 },
+        ),
+      ],
+    });
+
+    logger.info("login", { password: "hunter2" });
+    await logger.flush();
+
+    expect(datadog.entries).toHaveLength(1);
+    expect(datadog.entries[0]!.meta).toEqual({ password: "[REDACTED]" });
+  });
+
+  it("should keep live getters of wrapped transports", () => {
+    const queued = queueTransport({
+      name: "slow",
+      write: () => new Promise(() => {}),
+    });
+    const logger = createLogger({
+      transports: [withMiddleware(queued, [(e, next) => next(e)])],
+    });
+
+    logger.info("in flight");
+    logger.info("waiting");
+    expect(logger.stats().transports.slow!.queued).toBe(1);
+  });
+});
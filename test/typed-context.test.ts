@@ -0,0 +1,88 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import {
+  createLogger,
+  type LogEntry,
+  type Logger,
+  type OcppContext,
+  type OcppExchangeMeta,
+  type Transport,
+} from "../src/index.js";
+
+interface CpContext extends OcppContext {
+  chargePointId: string;
+  sessionId: string;
+}
+
+describe("Typed context", () => {
+  function setup() {
+    const entries: LogEntry<OcppExchangeMeta, CpContext>[] = [];
+    const transport: Transport<OcppExchangeMeta, CpContext> = {
+      name: "collect",
+      write: (entry) => {
+        entries.push(entry);
+      },
+    };
+    return { entries, transport };
+  }
+
+  it("should type child() and entry context with TContext", () => {
+    const { entries, transport } = setup();
+    const logger = createLogger<OcppExchangeMeta, CpContext>({
+      transports: [transport],
+    });
+
+    expectTypeOf(logger.child)
+      .parameter(0)
+      .toEqualTypeOf<Partial<CpContext>>();
+    expectTypeOf<LogEntry<OcppExchangeMeta, CpContext>["context"]>()
+      .toEqualTypeOf<Partial<CpContext> | undefined>();
+
+    // @ts-expect-error misspelled context key
+    logger.child({ chargepointId: "CP-101" });
+
+    const cpLog = logger.child({ chargePointId: "CP-101" });
+    expectTypeOf(cpLog.child).returns.toMatchTypeOf<
+      Logger<OcppExchangeMeta, CpContext>
+    >();
+    cpLog.child({ sessionId: "s-1" }).info("Session started");
+
+    expect(entries[0]!.context?.chargePointId).toBe("CP-101");
+    expect(entries[0]!.context?.sessionId).toBe("s-1");
+  });
+
+  it("should accept typed default context and middleware", () => {
+    const { entries, transport } = setup();
+    const logger = createLogger<OcppExchangeMeta, CpContext>({
+      transports: [transport],
+      context: { chargePointId: "CP-1" },
+      middleware: [
+        (entry, next) =>
+          next({
+            ...entry,
+            meta: { ...entry.meta, chargePointId: entry.context?.chargePointId },
+          }),
+      ],
+    });
+
+    logger.info("test");
+    expect(entries[0]!.meta.chargePointId).toBe("CP-1");
+  });
+
+  it("should fill exchange.chargePointId from context", () => {
+    const { entries, transport } = setup();
+    const logger = createLogger<OcppExchangeMeta, CpContext>({
+      transports: [transport],
+      exchangeLog: true,
+    });
+
+    logger
+      .child({ chargePointId: "CP-7" })
+      .info("OCPP", { action: "Heartbeat", messageType: "CALL" });
+    logger
+      .child({ chargePointId: "CP-7" })
+      .info("OCPP", { action: "Heartbeat", messageType: "CALL", chargePointId: "CP-META" });
+
+    expect(entries[0]!.exchange?.chargePointId).toBe("CP-7");
+    expect(entries[1]!.exchange?.chargePointId).toBe("CP-META");
+  });
+});